@@ -5,6 +5,7 @@ import feedparser
 import requests
 from bs4 import BeautifulSoup
 from urllib.parse import quote
+from functools import lru_cache
 import os
 
 app = Flask(__name__)
@@ -12,6 +13,34 @@ CORS(app)  # allow frontend localhost + vercel
 
 analyzer = SentimentIntensityAnalyzer()
 
+MODELS = ("vader", "finbert")
+DEFAULT_MODEL = "vader"
+
+
+class ModelUnavailable(Exception):
+    pass
+
+
+@lru_cache(maxsize=1)
+def load_finbert():
+    """Load FinBERT on first use; it is large and optional for deployments."""
+    try:
+        from transformers import AutoTokenizer, AutoModelForSequenceClassification
+        import torch
+    except ImportError as exc:
+        raise ModelUnavailable("FinBERT needs the transformers and torch packages on the server") from exc
+
+    name = "yiyanghkust/finbert-tone"
+    try:
+        tokenizer = AutoTokenizer.from_pretrained(name)
+        model = AutoModelForSequenceClassification.from_pretrained(name)
+    except (OSError, ValueError) as exc:
+        # Download failures and missing cached weights; lru_cache does not keep
+        # the exception, so the next request tries again.
+        raise ModelUnavailable(f"FinBERT weights could not be loaded: {exc}") from exc
+    model.eval()
+    return tokenizer, model, torch
+
 
 def fetch_article_content(url: str) -> str:
     """Fetch full article text (optional)."""
@@ -37,6 +66,7 @@ def fetch_news(query: str, num_articles: int = 10):
         title = getattr(item, "title", "")
         link = getattr(item, "link", "")
         published = getattr(item, "published", "")
+        source = item.get("source", {}).get("title", "")
 
         content = title  # Keep analysis fast. Change to fetch_article_content(link) if needed.
 
@@ -45,29 +75,76 @@ def fetch_news(query: str, num_articles: int = 10):
                 "title": title,
                 "link": link,
                 "published": published,
+                "source": source,
                 "content": content,
             }
         )
     return articles
 
 
-def analyze_sentiment(text: str):
-    scores = analyzer.polarity_scores(text)
-    compound = scores["compound"]
-
+def classify_compound(compound: float) -> str:
     if compound > 0.05:
-        sentiment = "positive"
-    elif compound < -0.05:
-        sentiment = "negative"
+        return "positive"
+    if compound < -0.05:
+        return "negative"
+    return "neutral"
+
+
+def vader_scores(text: str):
+    scores = analyzer.polarity_scores(text)
+    return scores["compound"], {"pos": scores["pos"], "neu": scores["neu"], "neg": scores["neg"]}
+
+
+def finbert_scores(text: str):
+    tokenizer, model, torch = load_finbert()
+    inputs = tokenizer(text, return_tensors="pt", truncation=True, max_length=128)
+    with torch.no_grad():
+        probs = torch.softmax(model(**inputs).logits, dim=-1)[0].tolist()
+    labels = {model.config.id2label[i].lower(): p for i, p in enumerate(probs)}
+    breakdown = {
+        "pos": labels.get("positive", 0.0),
+        "neu": labels.get("neutral", 0.0),
+        "neg": labels.get("negative", 0.0),
+    }
+    # Map the class probabilities onto VADER's [-1, 1] compound scale.
+    return breakdown["pos"] - breakdown["neg"], breakdown
+
+
+def analyze_sentiment(text: str, model: str = DEFAULT_MODEL):
+    if model == "finbert":
+        compound, breakdown = finbert_scores(text)
+        label = "FinBERT"
     else:
-        sentiment = "neutral"
+        compound, breakdown = vader_scores(text)
+        label = "VADER"
+
+    sentiment = classify_compound(compound)
 
     explanation = (
-        f"VADER → compound={compound:.3f}, "
-        f"pos={scores['pos']:.3f}, neu={scores['neu']:.3f}, neg={scores['neg']:.3f}"
+        f"{label} → compound={compound:.3f}, "
+        f"pos={breakdown['pos']:.3f}, neu={breakdown['neu']:.3f}, neg={breakdown['neg']:.3f}"
     )
 
-    return sentiment, compound, explanation
+    return sentiment, compound, explanation, breakdown
+
+
+def read_model(data):
+    model = data.get("model") or DEFAULT_MODEL
+    if not isinstance(model, str) or model.lower() not in MODELS:
+        return None
+    return model.lower()
+
+
+def model_error(model):
+    if model is None:
+        return jsonify({"error": f"Unknown model, expected one of: {', '.join(MODELS)}"}), 400
+    try:
+        if model == "finbert":
+            load_finbert()
+    except ModelUnavailable as exc:
+        # 501 rather than 503: the client retries 503s, and this will not fix itself.
+        return jsonify({"error": str(exc)}), 501
+    return None
 
 
 @app.route("/", methods=["GET"])
@@ -80,16 +157,27 @@ def api_analyze():
     data = request.get_json(silent=True) or {}
     query = (data.get("query") or "").strip()
     num_articles = int(data.get("limit") or 10)
+    model = read_model(data)
 
     if not query:
         return jsonify({"error": "Missing query"}), 400
 
+    error = model_error(model)
+    if error:
+        return error
+
     articles = fetch_news(query, num_articles)
     results = []
     summary = {"positive": 0, "negative": 0, "neutral": 0}
 
     for art in articles:
-        sentiment, compound, explanation = analyze_sentiment(art["title"])
+        # Score the headline without the " - Publisher" suffix Google News appends.
+        headline = art["title"]
+        suffix = f" - {art['source']}"
+        if art["source"] and headline.endswith(suffix):
+            headline = headline[: -len(suffix)]
+
+        sentiment, compound, explanation, breakdown = analyze_sentiment(headline, model)
         summary[sentiment] += 1
 
         results.append(
@@ -97,15 +185,18 @@ def api_analyze():
                 "title": art["title"],
                 "link": art["link"],
                 "published": art["published"],
+                "source": art["source"],
                 "sentiment": sentiment,
                 "polarity": compound,
                 "explanation": explanation,
+                "scores": breakdown,
             }
         )
 
     return jsonify(
         {
             "query": query,
+            "model": model,
             "total": len(results),
             "summary": summary,
             "articles": results,
@@ -113,6 +204,33 @@ def api_analyze():
     )
 
 
+@app.route("/api/classify", methods=["POST"])
+def api_classify():
+    data = request.get_json(silent=True) or {}
+    text = (data.get("text") or "").strip()
+    model = read_model(data)
+
+    if not text:
+        return jsonify({"error": "Missing text"}), 400
+
+    error = model_error(model)
+    if error:
+        return error
+
+    sentiment, compound, explanation, breakdown = analyze_sentiment(text, model)
+
+    return jsonify(
+        {
+            "text": text,
+            "model": model,
+            "sentiment": sentiment,
+            "polarity": compound,
+            "explanation": explanation,
+            "scores": breakdown,
+        }
+    )
+
+
 if __name__ == "__main__":
     port = int(os.environ.get("PORT", 5000))
     app.run(host="0.0.0.0", port=port)
@@ -0,0 +1,130 @@
+import { useState, type ChangeEvent } from "react";
+import { FileUp, ListChecks, RotateCw, Square } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import type { BatchAnalysis } from "@/hooks/use-batch-analysis";
+import { MAX_BATCH_LINES, parseBatchInput } from "@/lib/batch";
+
+interface BatchAnalyzerProps {
+  batch: BatchAnalysis;
+}
+
+const BatchAnalyzer = ({ batch }: BatchAnalyzerProps) => {
+  const [text, setText] = useState("");
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [fileError, setFileError] = useState<string | null>(null);
+  const { rows, progress, running } = batch;
+
+  const lines = parseBatchInput(text, fileName);
+  const tooMany = lines.length > MAX_BATCH_LINES;
+  const finished = progress.done + progress.failed;
+  const failedRows = rows.filter((r) => r.status === "error");
+  const anyRetryable = failedRows.some((r) => r.retryable);
+  const anyOffline = rows.some((r) => r.offline);
+
+  const loadFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setText(await file.text());
+      setFileName(file.name);
+      setFileError(null);
+    } catch {
+      setFileError(`Could not read ${file.name}.`);
+    }
+  };
+
+  const editText = (value: string) => {
+    setText(value);
+    // Once edited by hand the content is plain lines, even if it came from a CSV.
+    setFileName(undefined);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <Textarea
+        placeholder={"Paste one headline per line, e.g.\nTesla stock crashes 15%\nGold prices surge after Fed cuts rates"}
+        value={text}
+        onChange={(e) => editText(e.target.value)}
+        className="min-h-40 text-base border-2 focus-visible:ring-primary"
+      />
+      <div className="flex flex-col sm:flex-row gap-3 justify-between items-start sm:items-center">
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <FileUp className="w-4 h-4 mr-1" />
+              Upload CSV/TXT
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" className="sr-only" onChange={loadFile} />
+            </label>
+          </Button>
+          <span>
+            {fileName ? `${fileName} · ` : ""}
+            {lines.length} headline{lines.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {running && (
+            <Button variant="outline" onClick={batch.cancel}>
+              <Square className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={() => batch.start(lines)}
+            disabled={running || lines.length === 0 || tooMany}
+            className="font-bold"
+          >
+            <ListChecks className="w-4 h-4 mr-2" />
+            Analyze {lines.length || ""} headlines
+          </Button>
+        </div>
+      </div>
+
+      {tooMany && (
+        <p className="text-sm text-red-500">
+          Batches are limited to {MAX_BATCH_LINES} headlines; this input has {lines.length}.
+        </p>
+      )}
+      {fileError && <p className="text-sm text-red-500">{fileError}</p>}
+
+      {rows.length > 0 && (
+        <div className="space-y-2">
+          <Progress value={(finished / progress.total) * 100} className="h-2" />
+          <p className="text-sm text-muted-foreground">
+            {finished} of {progress.total} classified
+            {progress.failed > 0 && <span className="text-red-500"> · {progress.failed} failed</span>}
+            {anyOffline && " · some lines were scored locally because the backend was unreachable"}
+          </p>
+        </div>
+      )}
+
+      {!running && failedRows.length > 0 && (
+        <div className="rounded-md border border-destructive/40 p-3 text-sm">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold">Failed lines</span>
+            {anyRetryable && (
+              <Button variant="ghost" size="sm" onClick={batch.retryFailed}>
+                <RotateCw className="w-4 h-4 mr-1" />
+                Retry failed
+              </Button>
+            )}
+          </div>
+          <ul className="max-h-40 overflow-y-auto space-y-1">
+            {failedRows.map((r) => (
+              <li key={r.line} className="flex gap-2">
+                <span className="shrink-0 font-mono text-muted-foreground">#{r.line}</span>
+                <span className="truncate flex-1">{r.text}</span>
+                <span className="shrink-0 text-red-500">{r.error}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { BatchAnalyzer };
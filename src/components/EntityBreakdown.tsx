@@ -0,0 +1,88 @@
+import { Building2, Pencil } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SymbolTableDialog } from "@/components/SymbolTableDialog";
+import type { AnalysisResult } from "@/lib/analysis";
+import { entityBreakdown } from "@/lib/entities";
+import { classifyPolarity, DEFAULT_NEUTRAL_BAND, type NeutralBand } from "@/lib/sentiment-engine";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import type { SymbolTable } from "@/lib/symbols";
+import { cn } from "@/lib/utils";
+
+interface EntityBreakdownProps {
+  /** Results already run through `annotateEntities`. */
+  results: AnalysisResult[];
+  symbolTable: SymbolTable;
+  onSymbolTableChange: (table: SymbolTable) => void;
+  band?: NeutralBand;
+}
+
+const EntityBreakdown = ({
+  results,
+  symbolTable,
+  onSymbolTableChange,
+  band = DEFAULT_NEUTRAL_BAND,
+}: EntityBreakdownProps) => {
+  const stats = entityBreakdown(results);
+
+  return (
+    <Card className="p-6 mb-8 shadow-md border-2">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center mb-4">
+        <div className="flex items-center gap-2">
+          <Building2 className="w-6 h-6 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Companies</h2>
+        </div>
+        <SymbolTableDialog table={symbolTable} onSave={onSymbolTableChange}>
+          <Button variant="outline" size="sm">
+            <Pencil className="w-4 h-4 mr-2" />
+            Edit symbol table
+          </Button>
+        </SymbolTableDialog>
+      </div>
+      {stats.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No known companies or cashtags in these headlines. Add the ones you follow to the symbol
+          table.
+        </p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ticker</TableHead>
+                <TableHead>Company</TableHead>
+                <TableHead className="text-right">Mentions</TableHead>
+                <TableHead className="text-right">Pos / Neu / Neg</TableHead>
+                <TableHead className="text-right">Avg polarity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.map((s) => (
+                <TableRow key={s.symbol}>
+                  <TableCell className="font-mono font-semibold">${s.symbol}</TableCell>
+                  <TableCell>{s.name}</TableCell>
+                  <TableCell className="text-right">{s.count}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    <span className="text-positive">{s.summary.positive}</span> /{" "}
+                    <span>{s.summary.neutral}</span> /{" "}
+                    <span className="text-negative">{s.summary.negative}</span>
+                  </TableCell>
+                  <TableCell
+                    className={cn("text-right font-mono", SENTIMENT_TONE[classifyPolarity(s.average, band)].text)}
+                  >
+                    {s.average > 0 ? "+" : ""}
+                    {s.average.toFixed(3)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export { EntityBreakdown };
@@ -0,0 +1,45 @@
+import { Minus, TrendingDown, TrendingUp } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import type { EntitySentiment } from "@/lib/entities";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { cn } from "@/lib/utils";
+
+const ICON = {
+  positive: TrendingUp,
+  negative: TrendingDown,
+  neutral: Minus,
+} as const;
+
+interface EntityChipsProps {
+  entities?: EntitySentiment[];
+}
+
+/**
+ * One chip per company named in a headline, colored by that company's own
+ * sentiment. Renders bare badges, so place it inside a flex row.
+ */
+const EntityChips = ({ entities }: EntityChipsProps) => {
+  if (!entities?.length) return null;
+
+  return (
+    <>
+      {entities.map((e) => {
+        const Icon = ICON[e.sentiment];
+        const tone = SENTIMENT_TONE[e.sentiment];
+        return (
+          <Badge
+            key={e.symbol}
+            variant="outline"
+            className={cn("gap-1 font-mono", tone.border, tone.text)}
+            title={`${e.name}: ${e.sentiment} (${e.polarity > 0 ? "+" : ""}${e.polarity.toFixed(3)})`}
+          >
+            <Icon className="w-3 h-3" />${e.symbol}
+          </Badge>
+        );
+      })}
+    </>
+  );
+};
+
+export { EntityChips };
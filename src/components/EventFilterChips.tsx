@@ -0,0 +1,59 @@
+import { Tags } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { AnalysisResult } from "@/lib/analysis";
+import { eventCounts, EVENT_TYPES, type EventType } from "@/lib/events";
+
+interface EventFilterChipsProps {
+  /** Results already run through `annotateEvents`, before the event filter. */
+  results: AnalysisResult[];
+  selected: EventType[];
+  onChange: (selected: EventType[]) => void;
+}
+
+/**
+ * One toggle per event type found in the results, with its count. Selecting
+ * several shows headlines tagged with any of them.
+ */
+const EventFilterChips = ({ results, selected, onChange }: EventFilterChipsProps) => {
+  const counts = eventCounts(results);
+  const visible = EVENT_TYPES.filter(({ type }) => counts[type] > 0 || selected.includes(type));
+
+  const toggle = (type: EventType) =>
+    onChange(selected.includes(type) ? selected.filter((t) => t !== type) : [...selected, type]);
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4 mt-6 pt-6 border-t">
+      <div className="flex items-center gap-2 shrink-0">
+        <Tags className="w-5 h-5 text-primary" />
+        <span className="font-semibold">Events:</span>
+      </div>
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground self-center">No earnings, analyst, M&A or other events detected.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {visible.map(({ type, label }) => (
+            <Button
+              key={type}
+              onClick={() => toggle(type)}
+              variant={selected.includes(type) ? "default" : "outline"}
+              size="sm"
+              className="transition-smooth"
+              aria-pressed={selected.includes(type)}
+            >
+              {label}
+              <span className="ml-1.5 text-xs opacity-70">{counts[type]}</span>
+            </Button>
+          ))}
+          {selected.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => onChange([])}>
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { EventFilterChips };
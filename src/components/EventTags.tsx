@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import { eventLabel, type EventType } from "@/lib/events";
+
+interface EventTagsProps {
+  events?: EventType[];
+}
+
+/** Event-type badges for one headline. Renders bare badges for a flex row. */
+const EventTags = ({ events }: EventTagsProps) => {
+  if (!events?.length) return null;
+
+  return (
+    <>
+      {events.map((type) => (
+        <Badge key={type} variant="secondary">
+          {eventLabel(type)}
+        </Badge>
+      ))}
+    </>
+  );
+};
+
+export { EventTags };
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { ChevronDown } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { AnalysisResult } from "@/lib/analysis";
+import { modelLabel } from "@/lib/models";
+import type { TokenContribution } from "@/lib/sentiment-engine";
+import { cn } from "@/lib/utils";
+
+// Valences top out around ±4; anything stronger gets the full colour.
+const MAX_VALENCE = 4;
+
+const contributionColor = (valence: number) => {
+  const weight = Math.min(1, Math.abs(valence) / MAX_VALENCE);
+  const alpha = (0.15 + 0.6 * weight).toFixed(2);
+  return `hsl(var(--${valence >= 0 ? "positive" : "negative"}) / ${alpha})`;
+};
+
+const formatValence = (valence: number) => `${valence > 0 ? "+" : ""}${valence.toFixed(2)}`;
+
+const describeRules = (c: TokenContribution) =>
+  [c.rule === "phrase" ? "phrase pattern" : "lexicon", ...c.modifiers].join(", ");
+
+const HighlightedHeadline = ({
+  headline,
+  contributions,
+}: {
+  headline: string;
+  contributions: TokenContribution[];
+}) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  [...contributions]
+    .sort((a, b) => a.start - b.start)
+    .forEach((c, idx) => {
+      if (c.start < cursor) return;
+      if (c.start > cursor) parts.push(headline.slice(cursor, c.start));
+      parts.push(
+        <Tooltip key={idx}>
+          <TooltipTrigger asChild>
+            <mark
+              className="rounded px-0.5 text-foreground cursor-help"
+              style={{ backgroundColor: contributionColor(c.valence) }}
+            >
+              {headline.slice(c.start, c.end)}
+            </mark>
+          </TooltipTrigger>
+          <TooltipContent>
+            {formatValence(c.valence)} · {describeRules(c)}
+          </TooltipContent>
+        </Tooltip>
+      );
+      cursor = c.end;
+    });
+  if (cursor < headline.length) parts.push(headline.slice(cursor));
+
+  return <p className="text-base leading-relaxed">{parts}</p>;
+};
+
+const BreakdownBar = ({ pos, neu, neg }: { pos: number; neu: number; neg: number }) => (
+  <div>
+    <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+      <div className="bg-positive" style={{ width: `${pos * 100}%` }} />
+      <div className="bg-neutral" style={{ width: `${neu * 100}%` }} />
+      <div className="bg-negative" style={{ width: `${neg * 100}%` }} />
+    </div>
+    <div className="mt-1 flex justify-between text-xs text-muted-foreground">
+      <span>pos {(pos * 100).toFixed(0)}%</span>
+      <span>neu {(neu * 100).toFixed(0)}%</span>
+      <span>neg {(neg * 100).toFixed(0)}%</span>
+    </div>
+  </div>
+);
+
+interface ExplanationPanelProps {
+  result: AnalysisResult;
+  defaultOpen?: boolean;
+}
+
+const ExplanationPanel = ({ result, defaultOpen = false }: ExplanationPanelProps) => {
+  const [open, setOpen] = useState(defaultOpen);
+  const { details } = result;
+  // Word-level attribution is always the rule engine's; for backend models it
+  // only approximates why they scored the headline as they did.
+  const approximate = result.model !== "rules";
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-3">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2 text-muted-foreground">
+          <ChevronDown className={cn("w-4 h-4 mr-1 transition-transform", open && "rotate-180")} />
+          Why this score?
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-4 rounded-lg border bg-muted/40 p-4">
+        {approximate && (
+          <p className="text-xs text-muted-foreground">
+            Score and breakdown are from {modelLabel(result.model)}. Highlighted words and rules are the
+            in-browser rule engine's approximation and may disagree with its label.
+          </p>
+        )}
+        <HighlightedHeadline headline={result.headline} contributions={details.contributions} />
+
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+          <span>
+            Compound: <span className="font-semibold">{formatValence(details.compound)}</span>
+          </span>
+          {details.rulesFired.length > 0 && (
+            <span className="text-muted-foreground">
+              {approximate ? "Rule engine fired" : "Rules fired"}: {details.rulesFired.join(", ")}
+            </span>
+          )}
+        </div>
+
+        <BreakdownBar {...details.breakdown} />
+
+        {details.contributions.length > 0 ? (
+          <ul className="space-y-1 text-sm">
+            {details.contributions.map((c, idx) => (
+              <li key={idx} className="flex items-center justify-between gap-4">
+                <span className="font-medium">{c.text}</span>
+                <span className="text-muted-foreground flex-1 text-right">{describeRules(c)}</span>
+                <span
+                  className={cn(
+                    "w-14 text-right font-mono",
+                    c.valence >= 0 ? "text-positive" : "text-negative"
+                  )}
+                >
+                  {formatValence(c.valence)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No sentiment-bearing words were found.</p>
+        )}
+
+        <p className="text-xs text-muted-foreground">{result.explanation}</p>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export { ExplanationPanel };
@@ -0,0 +1,125 @@
+import { useState, type ReactNode } from "react";
+import { Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import type { AnalysisResult } from "@/lib/analysis";
+import {
+  buildExport,
+  DEFAULT_EXPORT_COLUMNS,
+  downloadBlob,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportFileName,
+  type ExportColumnKey,
+  type ExportFormat,
+} from "@/lib/export";
+
+interface ExportDialogProps {
+  /** Every result of the current analysis. */
+  results: AnalysisResult[];
+  /** The same results after the active filter and sort. */
+  viewResults: AnalysisResult[];
+  query: string;
+  children: ReactNode;
+}
+
+const ExportDialog = ({ results, viewResults, query, children }: ExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<ExportColumnKey[]>(DEFAULT_EXPORT_COLUMNS);
+  const [viewOnly, setViewOnly] = useState(false);
+
+  const rows = viewOnly ? viewResults : results;
+
+  const toggleColumn = (key: ExportColumnKey, checked: boolean) =>
+    setColumns((prev) => (checked ? [...prev, key] : prev.filter((k) => k !== key)));
+
+  const runExport = () => {
+    const blob = buildExport(rows, { format: exportFormat, columns, query });
+    downloadBlob(blob, exportFileName(query, exportFormat));
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export results</DialogTitle>
+          <DialogDescription>
+            Timestamps are written as ISO 8601 in UTC so files sort and import the same everywhere.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">Format</h3>
+            <RadioGroup
+              value={exportFormat}
+              onValueChange={(value) => setExportFormat(value as ExportFormat)}
+              className="grid grid-cols-2 sm:grid-cols-4 gap-2"
+            >
+              {EXPORT_FORMATS.map((f) => (
+                <Label
+                  key={f.format}
+                  htmlFor={`export-${f.format}`}
+                  className="flex items-center gap-2 rounded-md border p-2 cursor-pointer"
+                >
+                  <RadioGroupItem id={`export-${f.format}`} value={f.format} />
+                  {f.label}
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold">Columns</h3>
+            <div className="grid grid-cols-2 gap-3">
+              {EXPORT_COLUMNS.map((c) => (
+                <div key={c.key} className="flex items-center gap-2">
+                  <Switch
+                    id={`column-${c.key}`}
+                    checked={columns.includes(c.key)}
+                    onCheckedChange={(checked) => toggleColumn(c.key, checked)}
+                  />
+                  <Label htmlFor={`column-${c.key}`}>{c.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <Label htmlFor="export-view-only" className="leading-snug">
+              Only the current filtered and sorted view
+              <span className="block text-xs font-normal text-muted-foreground">
+                {viewResults.length} of {results.length} results
+              </span>
+            </Label>
+            <Switch id="export-view-only" checked={viewOnly} onCheckedChange={setViewOnly} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={runExport} disabled={columns.length === 0 || rows.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export {rows.length} rows
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { ExportDialog };
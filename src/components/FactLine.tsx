@@ -0,0 +1,36 @@
+import { Ruler } from "lucide-react";
+import type { MagnitudeFact } from "@/lib/magnitude";
+import { cn } from "@/lib/utils";
+
+interface FactLineProps {
+  facts?: MagnitudeFact[];
+  impact?: number;
+  className?: string;
+}
+
+/** The numeric moves read from a headline, e.g. "−15% stock price", with the blended impact. */
+const FactLine = ({ facts, impact, className }: FactLineProps) => {
+  if (!facts?.length) return null;
+
+  return (
+    <p className={cn("flex flex-wrap items-center gap-x-2 text-sm text-muted-foreground mb-3", className)}>
+      <Ruler className="w-4 h-4 shrink-0" />
+      {facts.map((fact, idx) => (
+        <span
+          key={idx}
+          className={cn("font-medium tabular-nums", fact.direction > 0 ? "text-positive" : "text-negative")}
+        >
+          {fact.label}
+        </span>
+      ))}
+      {impact !== undefined && (
+        <span title="Polarity blended with the size of the largest move">
+          · impact {impact > 0 ? "+" : ""}
+          {impact.toFixed(2)}
+        </span>
+      )}
+    </p>
+  );
+};
+
+export { FactLine };
@@ -0,0 +1,33 @@
+import { TrendingDown, TrendingUp } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import type { ForexSignal } from "@/lib/forex";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { cn } from "@/lib/utils";
+
+interface ForexBadgeProps {
+  signal?: ForexSignal;
+}
+
+/** The pair a headline moves and which way, e.g. "EUR/USD ↑" for "dollar weakens against euro". */
+const ForexBadge = ({ signal }: ForexBadgeProps) => {
+  if (!signal) return null;
+  const up = signal.direction === "up";
+  const Icon = up ? TrendingUp : TrendingDown;
+  const tone = SENTIMENT_TONE[up ? "positive" : "negative"];
+  const detail = signal.currencies.map((c) => `${c.direction} ${c.currency}`).join(" · ");
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1 font-mono", tone.border, tone.text)}
+      title={detail}
+    >
+      <Icon className="w-3 h-3" />
+      {signal.pair}
+      <span className="sr-only"> {detail}</span>
+    </Badge>
+  );
+};
+
+export { ForexBadge };
@@ -0,0 +1,56 @@
+import { Coins } from "lucide-react";
+
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AnalysisResult } from "@/lib/analysis";
+import { currencyBreakdown } from "@/lib/forex";
+import { cn } from "@/lib/utils";
+
+interface ForexBreakdownProps {
+  /** Results already run through `annotateForex`. */
+  results: AnalysisResult[];
+}
+
+const ForexBreakdown = ({ results }: ForexBreakdownProps) => {
+  const stats = currencyBreakdown(results);
+  if (stats.length === 0) return null;
+
+  return (
+    <Card className="p-6 mb-8 shadow-md border-2">
+      <div className="flex items-center gap-2 mb-4">
+        <Coins className="w-6 h-6 text-primary" />
+        <h2 className="text-2xl font-bold text-foreground">Currencies</h2>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Currency</TableHead>
+            <TableHead className="text-right">Bullish</TableHead>
+            <TableHead className="text-right">Bearish</TableHead>
+            <TableHead className="text-right">Net bias</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {stats.map((s) => (
+            <TableRow key={s.currency}>
+              <TableCell className="font-mono font-semibold">{s.currency}</TableCell>
+              <TableCell className="text-right text-positive">{s.bullish}</TableCell>
+              <TableCell className="text-right text-negative">{s.bearish}</TableCell>
+              <TableCell
+                className={cn(
+                  "text-right font-mono",
+                  s.bias > 0 ? "text-positive" : s.bias < 0 ? "text-negative" : "text-neutral"
+                )}
+              >
+                {s.bias > 0 ? "+" : ""}
+                {s.bias.toFixed(2)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+};
+
+export { ForexBreakdown };
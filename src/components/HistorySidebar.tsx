@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { History, MoreHorizontal, Pencil, Pin, PinOff, Trash2 } from "lucide-react";
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropwdown-menu";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import { useHistory, useHistoryActions } from "@/hooks/use-history";
+import type { AnalysisRun } from "@/lib/history-db";
+import { modelLabel } from "@/lib/models";
+
+interface HistoryItemProps {
+  run: AnalysisRun;
+  active: boolean;
+  onOpen: (run: AnalysisRun) => void;
+  onDelete: (run: AnalysisRun) => void;
+}
+
+const HistoryItem = ({ run, active, onOpen, onDelete }: HistoryItemProps) => {
+  const { rename, setPinned } = useHistoryActions();
+  const [editing, setEditing] = useState(false);
+  const { positive, negative, neutral } = run.response.summary;
+
+  const commitRename = (value: string) => {
+    setEditing(false);
+    const name = value.trim();
+    if (name && name !== run.name) rename.mutate({ id: run.id, name });
+  };
+
+  if (editing) {
+    return (
+      <SidebarMenuItem>
+        <SidebarInput
+          autoFocus
+          defaultValue={run.name}
+          aria-label="Rename analysis"
+          onBlur={(e) => commitRename(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitRename(e.currentTarget.value);
+            if (e.key === "Escape") setEditing(false);
+          }}
+        />
+      </SidebarMenuItem>
+    );
+  }
+
+  return (
+    <SidebarMenuItem>
+      <SidebarMenuButton isActive={active} onClick={() => onOpen(run)} className="h-auto py-2">
+        <div className="flex min-w-0 flex-col items-start">
+          <span className="w-full truncate font-medium">
+            {run.pinned && <Pin className="mr-1 inline h-3 w-3" />}
+            {run.name}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(run.createdAt).toLocaleString()} · {positive}↑ {negative}↓ {neutral}–
+            {run.offline ? " · offline" : run.model && ` · ${modelLabel(run.model)}`}
+          </span>
+        </div>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover>
+            <MoreHorizontal />
+            <span className="sr-only">More actions</span>
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem onSelect={() => onOpen(run)}>
+            <History className="mr-2 h-4 w-4" />
+            Re-open
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setEditing(true)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setPinned.mutate({ id: run.id, pinned: !run.pinned })}>
+            {run.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+            {run.pinned ? "Unpin" : "Pin"}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => onDelete(run)} className="text-destructive focus:text-destructive">
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+};
+
+interface HistorySidebarProps {
+  activeRunId: string;
+  onOpen: (run: AnalysisRun) => void;
+  onDeleted: (run: AnalysisRun) => void;
+}
+
+const HistorySidebar = ({ activeRunId, onOpen, onDeleted }: HistorySidebarProps) => {
+  const history = useHistory();
+  const { remove } = useHistoryActions();
+  const runs = history.data ?? [];
+  const pinned = runs.filter((r) => r.pinned);
+  const recent = runs.filter((r) => !r.pinned);
+
+  const deleteRun = (run: AnalysisRun) => {
+    remove.mutate(run.id, { onSuccess: () => onDeleted(run) });
+  };
+
+  const renderGroup = (label: string, items: AnalysisRun[]) =>
+    items.length > 0 && (
+      <SidebarGroup>
+        <SidebarGroupLabel>{label}</SidebarGroupLabel>
+        <SidebarGroupContent>
+          <SidebarMenu>
+            {items.map((run) => (
+              <HistoryItem
+                key={run.id}
+                run={run}
+                active={run.id === activeRunId}
+                onOpen={onOpen}
+                onDelete={deleteRun}
+              />
+            ))}
+          </SidebarMenu>
+        </SidebarGroupContent>
+      </SidebarGroup>
+    );
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-2 py-1 font-semibold">
+          <History className="h-4 w-4 text-primary" />
+          Analysis History
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        {history.isLoading && (
+          <SidebarMenu className="px-2">
+            {Array.from({ length: 4 }).map((_, idx) => (
+              <SidebarMenuItem key={idx}>
+                <SidebarMenuSkeleton />
+              </SidebarMenuItem>
+            ))}
+          </SidebarMenu>
+        )}
+        {history.isError && (
+          <p className="px-4 text-sm text-muted-foreground">
+            History is unavailable in this browser (IndexedDB could not be opened).
+          </p>
+        )}
+        {history.isSuccess && runs.length === 0 && (
+          <p className="px-4 text-sm text-muted-foreground">
+            Analyses you run are saved here so you can come back to them.
+          </p>
+        )}
+        {renderGroup("Pinned", pinned)}
+        {renderGroup("Recent", recent)}
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export { HistorySidebar };
@@ -0,0 +1,72 @@
+import { type ChangeEvent } from "react";
+import { FileUp } from "lucide-react";
+
+import { toast } from "@/components/ui/sonner";
+import { runIdFor, useHistoryActions } from "@/hooks/use-history";
+import type { AnalysisRun } from "@/lib/history-db";
+import { ImportError, parseImport } from "@/lib/import";
+import { cn } from "@/lib/utils";
+
+interface ImportResultsButtonProps {
+  onImported: (run: AnalysisRun) => void;
+  className?: string;
+}
+
+/**
+ * Reads an exported CSV/JSON/NDJSON file, saves it to the history as a new
+ * run and hands it back so the caller can open it like any saved analysis.
+ */
+const ImportResultsButton = ({ onImported, className }: ImportResultsButtonProps) => {
+  const { record } = useHistoryActions();
+
+  const importFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const { query, response, skipped } = parseImport(await file.text(), file.name);
+      const createdAt = Date.now();
+      const run: AnalysisRun = {
+        id: runIdFor(`import:${file.name}`, response.articles.length, createdAt),
+        name: `${query} (imported)`,
+        query,
+        limit: response.articles.length,
+        createdAt,
+        pinned: false,
+        offline: false,
+        response,
+      };
+      await record.mutateAsync(run);
+      onImported(run);
+      toast.success(`Imported ${response.articles.length} results from ${file.name}`, {
+        description:
+          skipped.length > 0
+            ? `Skipped ${skipped.length} invalid rows (first: row ${skipped[0].row}, ${skipped[0].message}).`
+            : undefined,
+      });
+    } catch (err) {
+      toast.error(`Could not import ${file.name}`, {
+        description:
+          err instanceof ImportError
+            ? err.message
+            : "Saving to the local history failed. Is IndexedDB available in this browser?",
+      });
+    }
+  };
+
+  return (
+    <label className={cn("cursor-pointer", className)} title="Import exported results">
+      <FileUp className="w-4 h-4" />
+      Import results
+      <input
+        type="file"
+        accept=".csv,.json,.ndjson,.jsonl,text/csv,application/json"
+        className="sr-only"
+        onChange={importFile}
+      />
+    </label>
+  );
+};
+
+export { ImportResultsButton };
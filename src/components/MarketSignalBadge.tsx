@@ -0,0 +1,27 @@
+import { Crosshair } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import type { MarketSignal } from "@/lib/market-signal";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { cn } from "@/lib/utils";
+
+const SIGNAL_SENTIMENT = { bullish: "positive", bearish: "negative" } as const;
+
+interface MarketSignalBadgeProps {
+  signal?: MarketSignal;
+  instrumentLabel: string;
+}
+
+const MarketSignalBadge = ({ signal, instrumentLabel }: MarketSignalBadgeProps) => {
+  if (!signal || signal === "none") return null;
+  const tone = SENTIMENT_TONE[SIGNAL_SENTIMENT[signal]];
+
+  return (
+    <Badge variant="outline" className={cn("gap-1", tone.tint, tone.text, tone.border)}>
+      <Crosshair className="w-3 h-3" />
+      <span className="capitalize">{signal}</span> for {instrumentLabel}
+    </Badge>
+  );
+};
+
+export { MarketSignalBadge };
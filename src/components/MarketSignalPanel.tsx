@@ -0,0 +1,88 @@
+import { Crosshair } from "lucide-react";
+
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { AnalysisResult } from "@/lib/analysis";
+import { summarizeSignals, type Instrument } from "@/lib/market-signal";
+import { cn } from "@/lib/utils";
+
+const TILES = [
+  { signal: "bullish", label: "Bullish", className: "text-positive" },
+  { signal: "bearish", label: "Bearish", className: "text-negative" },
+  { signal: "none", label: "No signal", className: "text-neutral" },
+] as const;
+
+interface MarketSignalPanelProps {
+  /** Results already run through `annotateSignals` for `instrument`. */
+  results: AnalysisResult[];
+  instrument: Instrument;
+  instruments: Instrument[];
+  onInstrumentChange: (id: string) => void;
+}
+
+const MarketSignalPanel = ({ results, instrument, instruments, onInstrumentChange }: MarketSignalPanelProps) => {
+  const summary = summarizeSignals(results);
+  const presets = instruments.filter((i) => !i.symbol);
+  const companies = instruments.filter((i) => i.symbol);
+
+  return (
+    <Card className="p-6 mb-8 shadow-md border-2">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center mb-2">
+        <div className="flex items-center gap-2">
+          <Crosshair className="w-6 h-6 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Market Signal</h2>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">For</span>
+          <Select value={instrument.id} onValueChange={onInstrumentChange}>
+            <SelectTrigger className="w-56 h-9" aria-label="Instrument">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Markets</SelectLabel>
+                {presets.map((i) => (
+                  <SelectItem key={i.id} value={i.id}>
+                    {i.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {companies.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Companies</SelectLabel>
+                  {companies.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground mb-6">
+        Tone is how a headline sounds; the signal is which way it points for {instrument.label}. Falling
+        oil reads negative but is bullish for airlines.
+      </p>
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {TILES.map((t) => (
+          <div key={t.signal} className="rounded-lg border p-4">
+            <p className={cn("text-3xl font-extrabold", t.className)}>{summary[t.signal]}</p>
+            <p className="text-sm font-semibold text-muted-foreground">{t.label}</p>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
+
+export { MarketSignalPanel };
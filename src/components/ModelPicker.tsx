@@ -0,0 +1,32 @@
+import { Cpu } from "lucide-react";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SentimentModel } from "@/lib/api";
+import { SENTIMENT_MODELS } from "@/lib/models";
+
+interface ModelPickerProps {
+  value: SentimentModel;
+  onChange: (model: SentimentModel) => void;
+}
+
+const ModelPicker = ({ value, onChange }: ModelPickerProps) => (
+  <div className="flex items-center gap-2 text-sm">
+    <Cpu className="w-4 h-4 text-primary" />
+    <span className="text-muted-foreground">Model</span>
+    <Select value={value} onValueChange={(model) => onChange(model as SentimentModel)}>
+      <SelectTrigger className="w-36 h-9" aria-label="Sentiment model">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SENTIMENT_MODELS.map((m) => (
+          <SelectItem key={m.model} value={m.model}>
+            <span className="font-medium">{m.label}</span>
+            <span className="block text-xs text-muted-foreground max-w-60">{m.description}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export { ModelPicker };
@@ -0,0 +1,56 @@
+import { SlidersHorizontal } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { NEUTRAL_BAND_LIMIT } from "@/lib/settings";
+import { DEFAULT_NEUTRAL_BAND, type NeutralBand } from "@/lib/sentiment-engine";
+
+interface NeutralBandControlProps {
+  value: NeutralBand;
+  onChange: (band: NeutralBand) => void;
+}
+
+const formatEdge = (value: number) => `${value > 0 ? "+" : value < 0 ? "−" : ""}${Math.abs(value).toFixed(2)}`;
+
+const NeutralBandControl = ({ value, onChange }: NeutralBandControlProps) => {
+  const isDefault =
+    value.lower === DEFAULT_NEUTRAL_BAND.lower && value.upper === DEFAULT_NEUTRAL_BAND.upper;
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
+      <div className="flex items-center gap-2 shrink-0">
+        <SlidersHorizontal className="w-5 h-5 text-primary" />
+        <span className="font-semibold">Neutral band:</span>
+      </div>
+      <div className="flex flex-1 w-full items-center gap-4">
+        <span className="w-12 text-right font-mono text-sm text-negative">{formatEdge(value.lower)}</span>
+        <Slider
+          min={-NEUTRAL_BAND_LIMIT}
+          max={NEUTRAL_BAND_LIMIT}
+          step={0.01}
+          minStepsBetweenThumbs={0}
+          value={[value.lower, value.upper]}
+          onValueChange={([lower, upper]) =>
+            onChange({ lower: Math.min(lower, 0), upper: Math.max(upper, 0) })
+          }
+          aria-label="Neutral band"
+          className="flex-1"
+        />
+        <span className="w-12 font-mono text-sm text-positive">{formatEdge(value.upper)}</span>
+      </div>
+      <p className="text-xs text-muted-foreground sm:w-56">
+        Headlines with polarity inside the band count as neutral.
+      </p>
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={isDefault}
+        onClick={() => onChange(DEFAULT_NEUTRAL_BAND)}
+      >
+        Reset
+      </Button>
+    </div>
+  );
+};
+
+export { NeutralBandControl };
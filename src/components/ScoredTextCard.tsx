@@ -0,0 +1,73 @@
+import { Minus, TrendingDown, TrendingUp } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { EntityChips } from "@/components/EntityChips";
+import { EventTags } from "@/components/EventTags";
+import { FactLine } from "@/components/FactLine";
+import { ForexBadge } from "@/components/ForexBadge";
+import { ExplanationPanel } from "@/components/ExplanationPanel";
+import type { AnalysisResult } from "@/lib/analysis";
+import { modelLabel } from "@/lib/models";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { cn } from "@/lib/utils";
+
+const ICON = {
+  positive: TrendingUp,
+  negative: TrendingDown,
+  neutral: Minus,
+} as const;
+
+interface ScoredTextCardProps {
+  result: AnalysisResult;
+  offline: boolean;
+}
+
+/** The single result of "score my text": the typed headline itself, not news about it. */
+const ScoredTextCard = ({ result, offline }: ScoredTextCardProps) => {
+  const sentiment = result.sentiment ?? "neutral";
+  const tone = SENTIMENT_TONE[sentiment];
+  const Icon = ICON[sentiment];
+  const { pos, neu, neg } = result.details.breakdown;
+
+  return (
+    <Card className={cn("p-8 shadow-md border-2 border-l-8 animate-fade-in", tone.accent)}>
+      <div className="flex flex-col md:flex-row gap-6 justify-between items-start">
+        <div className="flex-1 min-w-0">
+          <Badge className={cn("px-3 py-1 font-bold text-sm mb-4", tone.solid)}>
+            <span className="flex items-center gap-1">
+              <Icon className="w-5 h-5" />
+              {sentiment.toUpperCase()}
+            </span>
+          </Badge>
+          <h2 className="text-2xl font-semibold text-foreground mb-4">{result.headline}</h2>
+          <div className="flex flex-wrap gap-2 mb-3 empty:hidden">
+            <ForexBadge signal={result.forex} />
+            <EventTags events={result.events} />
+            <EntityChips entities={result.entities} />
+          </div>
+          <FactLine facts={result.facts} impact={result.impact} />
+          <ExplanationPanel result={result} defaultOpen />
+          <p className="text-sm text-muted-foreground">
+            Scored {result.timestamp.toLocaleString()}
+            {offline
+              ? " by the in-browser rule engine (backend unreachable)"
+              : ` with ${modelLabel(result.model)}`}
+          </p>
+        </div>
+        <div className="text-center md:text-right shrink-0">
+          <p className="text-sm font-semibold text-muted-foreground">Compound polarity</p>
+          <p className={cn("text-5xl font-extrabold", tone.text)}>
+            {result.polarity > 0 ? "+" : ""}
+            {result.polarity.toFixed(3)}
+          </p>
+          <p className="text-sm text-muted-foreground mt-2">
+            pos {pos.toFixed(2)} · neu {neu.toFixed(2)} · neg {neg.toFixed(2)}
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export { ScoredTextCard };
@@ -0,0 +1,119 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { CartesianGrid, Cell, ComposedChart, Line, ReferenceLine, Scatter, XAxis, YAxis } from "recharts";
+import { Clock } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import type { AnalysisResult } from "@/lib/analysis";
+import { sentimentChartConfig } from "@/lib/chart-config";
+import {
+  BUCKET_SIZES,
+  BUCKET_TICK_FORMAT,
+  buildTimeline,
+  ROLLING_WINDOW,
+  type BucketSize,
+} from "@/lib/timeline";
+
+const timelineChartConfig = {
+  ...sentimentChartConfig,
+  rolling: { label: "Rolling average", color: "hsl(var(--primary))" },
+};
+
+const BucketSizePicker = ({
+  value,
+  onChange,
+}: {
+  value: BucketSize;
+  onChange: (size: BucketSize) => void;
+}) => (
+  <div className="flex items-center gap-2 print:hidden">
+    <Clock className="w-5 h-5 text-primary" />
+    {BUCKET_SIZES.map((size) => (
+      <Button
+        key={size}
+        onClick={() => onChange(size)}
+        variant={value === size ? "default" : "outline"}
+        size="sm"
+        className="transition-smooth capitalize"
+      >
+        {size}
+      </Button>
+    ))}
+  </div>
+);
+
+interface SentimentTimelineProps {
+  results: AnalysisResult[];
+}
+
+const SentimentTimeline = ({ results }: SentimentTimelineProps) => {
+  const [bucketSize, setBucketSize] = useState<BucketSize>("day");
+  const timeline = useMemo(() => buildTimeline(results, bucketSize), [results, bucketSize]);
+
+  return (
+    <Card className="p-6 mb-8 shadow-md border-2">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Sentiment Over Time</h2>
+          <p className="text-sm text-muted-foreground">
+            Each dot is an article; the line averages the last {ROLLING_WINDOW} {bucketSize} buckets.
+          </p>
+        </div>
+        <BucketSizePicker value={bucketSize} onChange={setBucketSize} />
+      </div>
+
+      <ChartContainer config={timelineChartConfig} className="max-h-80 w-full">
+        <ComposedChart margin={{ left: 4, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(t) => format(t, BUCKET_TICK_FORMAT[bucketSize])}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+          />
+          <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} tickLine={false} axisLine={false} width={32} />
+          <ReferenceLine y={0} stroke="hsl(var(--border))" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const item = payload?.[0]?.payload;
+                  if (!item) return null;
+                  return item.headline ?? format(item.time, BUCKET_TICK_FORMAT[bucketSize]);
+                }}
+                formatter={(value, name) => (
+                  <span>
+                    {timelineChartConfig[name as keyof typeof timelineChartConfig]?.label ?? name}:{" "}
+                    <span className="font-mono font-medium">{Number(value).toFixed(3)}</span>
+                  </span>
+                )}
+              />
+            }
+          />
+          <Scatter data={timeline.points} dataKey="polarity" fillOpacity={0.7}>
+            {timeline.points.map((p, idx) => (
+              <Cell key={idx} fill={`var(--color-${p.sentiment ?? "neutral"})`} />
+            ))}
+          </Scatter>
+          <Line
+            data={timeline.buckets}
+            dataKey="rolling"
+            type="monotone"
+            stroke="var(--color-rolling)"
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ChartContainer>
+    </Card>
+  );
+};
+
+export { SentimentTimeline, BucketSizePicker };
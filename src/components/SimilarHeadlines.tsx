@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { ChevronDown, Layers } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { AnalysisResult } from "@/lib/analysis";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { cn } from "@/lib/utils";
+
+interface SimilarHeadlinesProps {
+  /** Other headlines clustered with the card's lead, lead excluded. */
+  members: AnalysisResult[];
+}
+
+const SimilarHeadlines = ({ members }: SimilarHeadlinesProps) => {
+  const [open, setOpen] = useState(false);
+  if (members.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-3">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2 text-muted-foreground">
+          <Layers className="w-4 h-4 mr-1" />
+          {members.length} similar headline{members.length === 1 ? "" : "s"}
+          <ChevronDown className={cn("w-4 h-4 ml-1 transition-transform", open && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="mt-2 space-y-2 border-l-2 pl-4 text-sm">
+          {members.map((r, idx) => (
+            <li key={idx} className="flex items-start gap-2">
+              <span
+                className={cn("mt-1.5 h-2 w-2 shrink-0 rounded-full", SENTIMENT_TONE[r.sentiment ?? "neutral"].dot)}
+              />
+              <span className="flex-1">
+                {r.link ? (
+                  <a href={r.link} target="_blank" rel="noreferrer" className="hover:underline">
+                    {r.headline}
+                  </a>
+                ) : (
+                  r.headline
+                )}
+                <span className="block text-xs text-muted-foreground">
+                  {r.source && `${r.source} · `}
+                  {r.timestamp.toLocaleDateString()} · {r.polarity > 0 ? "+" : ""}
+                  {r.polarity.toFixed(3)}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export { SimilarHeadlines };
@@ -0,0 +1,100 @@
+import { Newspaper } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AnalysisResult } from "@/lib/analysis";
+import { sourceBreakdown } from "@/lib/sources";
+import { classifyPolarity, DEFAULT_NEUTRAL_BAND, type NeutralBand } from "@/lib/sentiment-engine";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { cn } from "@/lib/utils";
+
+interface SourceBreakdownProps {
+  results: AnalysisResult[];
+  excluded: string[];
+  onExcludedChange: (excluded: string[]) => void;
+  band?: NeutralBand;
+}
+
+const SourceBreakdown = ({
+  results,
+  excluded,
+  onExcludedChange,
+  band = DEFAULT_NEUTRAL_BAND,
+}: SourceBreakdownProps) => {
+  const stats = sourceBreakdown(results);
+  if (stats.length === 0) return null;
+
+  const setIncluded = (source: string, included: boolean) =>
+    onExcludedChange(included ? excluded.filter((s) => s !== source) : [...excluded, source]);
+
+  const showOnly = (source: string) =>
+    onExcludedChange(stats.map((s) => s.source).filter((s) => s !== source));
+
+  return (
+    <Card className="p-6 mb-8 shadow-md border-2">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center mb-4">
+        <div className="flex items-center gap-2">
+          <Newspaper className="w-6 h-6 text-primary" />
+          <h2 className="text-2xl font-bold text-foreground">Sources</h2>
+        </div>
+        {excluded.length > 0 && (
+          <Button variant="outline" size="sm" onClick={() => onExcludedChange([])}>
+            Include all sources
+          </Button>
+        )}
+      </div>
+      <div className="max-h-80 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-16">Show</TableHead>
+              <TableHead>Publisher</TableHead>
+              <TableHead className="text-right">Articles</TableHead>
+              <TableHead className="text-right">Pos / Neu / Neg</TableHead>
+              <TableHead className="text-right">Avg polarity</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {stats.map((s) => {
+              const included = !excluded.includes(s.source);
+              return (
+                <TableRow key={s.source} className={cn(!included && "opacity-50")}>
+                  <TableCell>
+                    <Switch
+                      checked={included}
+                      onCheckedChange={(checked) => setIncluded(s.source, checked)}
+                      aria-label={`Show ${s.source}`}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{s.source}</TableCell>
+                  <TableCell className="text-right">{s.count}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    <span className="text-positive">{s.summary.positive}</span> /{" "}
+                    <span>{s.summary.neutral}</span> /{" "}
+                    <span className="text-negative">{s.summary.negative}</span>
+                  </TableCell>
+                  <TableCell
+                    className={cn("text-right font-mono", SENTIMENT_TONE[classifyPolarity(s.average, band)].text)}
+                  >
+                    {s.average > 0 ? "+" : ""}
+                    {s.average.toFixed(3)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" className="h-7" onClick={() => showOnly(s.source)}>
+                      Only
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+};
+
+export { SourceBreakdown };
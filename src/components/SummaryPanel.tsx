@@ -0,0 +1,116 @@
+import { useMemo, type ReactNode } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Label, Pie, PieChart, XAxis, YAxis } from "recharts";
+
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { SentimentSummary } from "@/lib/api";
+import type { AnalysisResult } from "@/lib/analysis";
+import { sentimentChartConfig } from "@/lib/chart-config";
+import { classifyPolarity, DEFAULT_NEUTRAL_BAND, type NeutralBand } from "@/lib/sentiment-engine";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { averagePolarity, polarityHistogram, SENTIMENTS } from "@/lib/stats";
+import { cn } from "@/lib/utils";
+
+interface SummaryPanelProps {
+  summary: SentimentSummary;
+  results: AnalysisResult[];
+  /** Extra controls shown next to the heading. */
+  actions?: ReactNode;
+  band?: NeutralBand;
+}
+
+const SummaryPanel = ({ summary, results, actions, band = DEFAULT_NEUTRAL_BAND }: SummaryPanelProps) => {
+  const distribution = useMemo(
+    () =>
+      SENTIMENTS.map((sentiment) => ({
+        sentiment,
+        count: summary[sentiment],
+        fill: `var(--color-${sentiment})`,
+      })),
+    [summary]
+  );
+  const histogram = useMemo(() => polarityHistogram(results, 0.2, band), [results, band]);
+  const total = summary.positive + summary.negative + summary.neutral;
+  const average = averagePolarity(results);
+
+  return (
+    <Card className="p-6 mb-8 shadow-md border-2">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center mb-6">
+        <h2 className="text-2xl font-bold text-foreground">Sentiment Summary</h2>
+        {actions}
+      </div>
+      <div className="grid gap-8 md:grid-cols-3 items-center">
+        <div>
+          <h3 className="font-semibold mb-2 text-center">Distribution</h3>
+          <ChartContainer config={sentimentChartConfig} className="mx-auto aspect-square max-h-64">
+            <PieChart>
+              <ChartTooltip cursor={false} content={<ChartTooltipContent nameKey="sentiment" hideLabel />} />
+              <Pie data={distribution} dataKey="count" nameKey="sentiment" innerRadius={55} strokeWidth={4}>
+                <Label
+                  content={({ viewBox }) => {
+                    if (!viewBox || !("cx" in viewBox)) return null;
+                    return (
+                      <text x={viewBox.cx} y={viewBox.cy} textAnchor="middle" dominantBaseline="middle">
+                        <tspan x={viewBox.cx} y={viewBox.cy} className="fill-foreground text-3xl font-bold">
+                          {total}
+                        </tspan>
+                        <tspan x={viewBox.cx} y={(viewBox.cy || 0) + 22} className="fill-muted-foreground">
+                          articles
+                        </tspan>
+                      </text>
+                    );
+                  }}
+                />
+              </Pie>
+              <ChartLegend content={<ChartLegendContent nameKey="sentiment" />} />
+            </PieChart>
+          </ChartContainer>
+        </div>
+
+        <div className="text-center">
+          <h3 className="font-semibold mb-2">Average Polarity</h3>
+          <p
+            className={cn(
+              "text-5xl font-extrabold",
+              SENTIMENT_TONE[classifyPolarity(average, band)].text
+            )}
+          >
+            {average > 0 ? "+" : ""}
+            {average.toFixed(3)}
+          </p>
+          <p className="text-sm text-muted-foreground mt-2">
+            Mean compound score across {results.length} article{results.length === 1 ? "" : "s"}, from −1 to +1
+          </p>
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2 text-center">Polarity Histogram</h3>
+          <ChartContainer config={sentimentChartConfig} className="max-h-64 w-full">
+            <BarChart data={histogram}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval={1} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent labelFormatter={(label) => `Polarity ≈ ${label}`} />}
+              />
+              <Bar dataKey="count" radius={4}>
+                {histogram.map((bin) => (
+                  <Cell key={bin.label} fill={`var(--color-${bin.sentiment})`} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export { SummaryPanel };
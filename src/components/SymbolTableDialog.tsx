@@ -0,0 +1,84 @@
+import { useState, type ReactNode } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DEFAULT_SYMBOL_TABLE,
+  formatSymbolTable,
+  parseSymbolTable,
+  type SymbolTable,
+} from "@/lib/symbols";
+
+interface SymbolTableDialogProps {
+  table: SymbolTable;
+  onSave: (table: SymbolTable) => void;
+  children: ReactNode;
+}
+
+const SymbolTableDialog = ({ table, onSave, children }: SymbolTableDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const { table: parsed, errors } = parseSymbolTable(draft);
+
+  const onOpenChange = (next: boolean) => {
+    // Start from the saved table each time so a cancelled edit is discarded.
+    if (next) setDraft(formatSymbolTable(table));
+    setOpen(next);
+  };
+
+  const save = () => {
+    onSave(parsed);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Symbol table</DialogTitle>
+          <DialogDescription>
+            One company per line: ticker, name, then any other names it appears under, separated by
+            commas. Cashtags like $XYZ are recognized even when they are not listed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={14}
+          spellCheck={false}
+          className="font-mono text-sm"
+          aria-label="Symbol table"
+        />
+        {errors.length > 0 && (
+          <ul className="max-h-24 overflow-y-auto text-sm text-destructive space-y-1">
+            {errors.map((error) => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" onClick={() => setDraft(formatSymbolTable(DEFAULT_SYMBOL_TABLE))}>
+            Restore defaults
+          </Button>
+          <Button onClick={save} disabled={errors.length > 0}>
+            Save {parsed.length} companies
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export { SymbolTableDialog };
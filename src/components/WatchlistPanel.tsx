@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { ArrowDownRight, ArrowUpRight, Eye, Plus, RefreshCw, Search, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { describeApiError, type SentimentModel } from "@/lib/api";
+import { modelLabel } from "@/lib/models";
+import type { NeutralBand } from "@/lib/sentiment-engine";
+import { REFRESH_INTERVALS, type WatchlistItem } from "@/lib/watchlist";
+import { cn } from "@/lib/utils";
+
+const formatSigned = (value: number, digits = 0) =>
+  `${value > 0 ? "+" : value < 0 ? "−" : "±"}${Math.abs(value).toFixed(digits)}`;
+
+const SummaryBar = ({ summary }: { summary: NonNullable<WatchlistItem["latest"]>["summary"] }) => {
+  const total = summary.positive + summary.negative + summary.neutral || 1;
+  return (
+    <div className="flex h-2 w-full overflow-hidden rounded-full bg-muted">
+      <div className="bg-positive" style={{ width: `${(summary.positive / total) * 100}%` }} />
+      <div className="bg-neutral" style={{ width: `${(summary.neutral / total) * 100}%` }} />
+      <div className="bg-negative" style={{ width: `${(summary.negative / total) * 100}%` }} />
+    </div>
+  );
+};
+
+const ChangeLine = ({ item }: { item: WatchlistItem }) => {
+  const { latest, previous } = item;
+  if (!latest) return null;
+  if (!previous) {
+    return <p className="text-xs text-muted-foreground">First run, no change to compare yet.</p>;
+  }
+
+  const delta = latest.averagePolarity - previous.averagePolarity;
+  const negDelta = latest.summary.negative - previous.summary.negative;
+  const posDelta = latest.summary.positive - previous.summary.positive;
+
+  return (
+    <p className="flex items-center gap-2 text-xs">
+      <span className={cn("flex items-center font-semibold", delta >= 0 ? "text-positive" : "text-negative")}>
+        {delta >= 0 ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
+        {formatSigned(delta, 3)} avg
+      </span>
+      <span className="text-muted-foreground">
+        {formatSigned(posDelta)} pos · {formatSigned(negDelta)} neg vs{" "}
+        {new Date(previous.fetchedAt).toLocaleTimeString()}
+      </span>
+    </p>
+  );
+};
+
+interface WatchlistPanelProps {
+  model: SentimentModel;
+  band: NeutralBand;
+  onOpen: (query: string) => void;
+}
+
+const WatchlistPanel = ({ model, band, onOpen }: WatchlistPanelProps) => {
+  const { entries, intervalMinutes, addItem, removeItem, setIntervalMinutes } = useWatchlist(model, band);
+  const [name, setName] = useState("");
+  const [query, setQuery] = useState("");
+
+  const submit = () => {
+    if (!query.trim()) return;
+    addItem(name, query);
+    setName("");
+    setQuery("");
+  };
+
+  return (
+    <section className="py-12 px-4">
+      <div className="container mx-auto max-w-6xl">
+        <Card className="p-6 shadow-md border-2">
+          <div className="flex flex-col md:flex-row gap-4 justify-between items-start md:items-center mb-6">
+            <div className="flex items-center gap-2">
+              <Eye className="w-6 h-6 text-primary" />
+              <h2 className="text-2xl font-bold text-foreground">Watchlist</h2>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Re-analyze every</span>
+              <Select
+                value={String(intervalMinutes)}
+                onValueChange={(value) => setIntervalMinutes(Number(value))}
+              >
+                <SelectTrigger className="w-32 h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFRESH_INTERVALS.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 mb-6">
+            <Input
+              placeholder="Name (e.g. 'Nvidia')"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="sm:w-48"
+            />
+            <Input
+              placeholder="Query (e.g. 'NVDA stock')"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && submit()}
+              className="flex-1"
+            />
+            <Button onClick={submit} disabled={!query.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Watch
+            </Button>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Save the tickers and topics you check every day; they are re-analyzed automatically
+              while this tab is open.
+            </p>
+          ) : (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {entries.map(({ item, query: status }) => (
+                <Card key={item.id} className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold truncate">{item.name}</h3>
+                      <p className="text-xs text-muted-foreground truncate">{item.query}</p>
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Open in analyzer"
+                        onClick={() => onOpen(item.query)}
+                      >
+                        <Search className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Refresh now"
+                        disabled={status?.isFetching}
+                        onClick={() => status?.refetch()}
+                      >
+                        <RefreshCw className={cn("w-4 h-4", status?.isFetching && "animate-spin")} />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Remove"
+                        onClick={() => removeItem(item.id)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {item.latest ? (
+                    <>
+                      <SummaryBar summary={item.latest.summary} />
+                      <p className="text-xs">
+                        <span className="text-positive font-semibold">{item.latest.summary.positive}</span> pos ·{" "}
+                        <span className="text-negative font-semibold">{item.latest.summary.negative}</span> neg ·{" "}
+                        <span className="font-semibold">{item.latest.summary.neutral}</span> neu · avg{" "}
+                        {formatSigned(item.latest.averagePolarity, 3)}
+                      </p>
+                      <ChangeLine item={item} />
+                      <p className="text-xs text-muted-foreground">
+                        Updated {new Date(item.latest.fetchedAt).toLocaleTimeString()}
+                        {item.latest.model && ` · ${modelLabel(item.latest.model)}`}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      {status?.isError ? describeApiError(status.error) : "Analyzing…"}
+                    </p>
+                  )}
+                  {item.latest && status?.isError && (
+                    <p className="text-xs text-red-500">{describeApiError(status.error)}</p>
+                  )}
+                </Card>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </section>
+  );
+};
+
+export { WatchlistPanel };
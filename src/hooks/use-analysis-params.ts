@@ -0,0 +1,136 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+
+import {
+  parseEventFilter,
+  parseSentimentFilter,
+  parseSignalFilter,
+  writeEventFilter,
+  writeSentimentFilter,
+  writeSignalFilter,
+  type SentimentFilter,
+  type SignalFilter,
+} from "@/lib/filters";
+import type { EventType } from "@/lib/events";
+import { parseSort, writeSort, type SortState } from "@/lib/sort";
+import { parseExcludedSources, writeExcludedSources } from "@/lib/sources";
+
+/**
+ * The submitted query, sentiment, market-signal and event filters, sort
+ * order and excluded sources live in the URL
+ * (`?q=NVDA&filter=negative&signal=bullish&event=downgrade&sort=strength&dir=desc&exclude=Reuters`)
+ * so a view can be shared as a link. Opening a link with `q` runs the
+ * analysis straight away; `run` points at a saved analysis from the local
+ * history instead. `text` holds a headline submitted for scoring on its own,
+ * independent of `q`.
+ */
+export function useAnalysisParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = (searchParams.get("q") ?? "").trim();
+  const runId = searchParams.get("run") ?? "";
+  const scoredText = (searchParams.get("text") ?? "").trim();
+  const filter = parseSentimentFilter(searchParams);
+  const signalFilter = parseSignalFilter(searchParams);
+  // `searchParams` only changes with the URL, so these keep their identity
+  // between renders and can key memos downstream.
+  const eventFilter = useMemo(() => parseEventFilter(searchParams), [searchParams]);
+  const sort = useMemo(() => parseSort(searchParams), [searchParams]);
+  const excludedSources = useMemo(() => parseExcludedSources(searchParams), [searchParams]);
+  const countStoriesOnce = searchParams.get("once") === "1";
+
+  const update = useCallback(
+    (apply: (params: URLSearchParams) => void, options: { replace: boolean }) => {
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        apply(next);
+        return next;
+      }, options);
+    },
+    [setSearchParams]
+  );
+
+  // A new query is a navigation (back returns to the previous one); filter
+  // and sort changes just rewrite the current entry.
+  const setQuery = useCallback(
+    (value: string) =>
+      update(
+        (p) => {
+          p.delete("run");
+          if (value) p.set("q", value);
+          else p.delete("q");
+        },
+        { replace: false }
+      ),
+    [update]
+  );
+  const setScoredText = useCallback(
+    (value: string) =>
+      update(
+        (p) => {
+          if (value) p.set("text", value);
+          else p.delete("text");
+        },
+        { replace: false }
+      ),
+    [update]
+  );
+  const openRun = useCallback(
+    (id: string, runQuery: string) =>
+      update(
+        (p) => {
+          p.set("run", id);
+          p.set("q", runQuery);
+        },
+        { replace: false }
+      ),
+    [update]
+  );
+  const closeRun = useCallback(() => update((p) => p.delete("run"), { replace: true }), [update]);
+  const setFilter = useCallback(
+    (value: SentimentFilter) => update((p) => writeSentimentFilter(p, value), { replace: true }),
+    [update]
+  );
+  const setSignalFilter = useCallback(
+    (value: SignalFilter) => update((p) => writeSignalFilter(p, value), { replace: true }),
+    [update]
+  );
+  const setEventFilter = useCallback(
+    (value: EventType[]) => update((p) => writeEventFilter(p, value), { replace: true }),
+    [update]
+  );
+  const setSort = useCallback(
+    (value: SortState) => update((p) => writeSort(p, value), { replace: true }),
+    [update]
+  );
+  const setCountStoriesOnce = useCallback(
+    (value: boolean) => update((p) => (value ? p.set("once", "1") : p.delete("once")), { replace: true }),
+    [update]
+  );
+  const setExcludedSources = useCallback(
+    (value: string[]) => update((p) => writeExcludedSources(p, value), { replace: true }),
+    [update]
+  );
+
+  return {
+    query,
+    runId,
+    scoredText,
+    filter,
+    signalFilter,
+    eventFilter,
+    sort,
+    excludedSources,
+    countStoriesOnce,
+    setQuery,
+    setScoredText,
+    openRun,
+    closeRun,
+    setFilter,
+    setSignalFilter,
+    setEventFilter,
+    setSort,
+    setExcludedSources,
+    setCountStoriesOnce,
+  };
+}
@@ -0,0 +1,110 @@
+import { queryOptions, useQueries, useQuery } from "@tanstack/react-query";
+
+import {
+  analyzeNews,
+  classifyText,
+  isApiError,
+  DEFAULT_LIMIT,
+  DEFAULT_MODEL,
+  type AnalyzeResponse,
+  type ClassifyResponse,
+  type SentimentModel,
+} from "@/lib/api";
+import { analyzeOffline, classifyOffline, rescoreWithRules } from "@/lib/analysis";
+
+export const analysisKeys = {
+  all: ["analysis"] as const,
+  allNews: () => [...analysisKeys.all, "news"] as const,
+  news: (query: string, limit: number, model: SentimentModel = DEFAULT_MODEL) =>
+    [...analysisKeys.allNews(), query, limit, model] as const,
+  watch: (query: string, limit: number, model: SentimentModel = DEFAULT_MODEL) =>
+    [...analysisKeys.all, "watch", query, limit, model] as const,
+  allClassify: () => [...analysisKeys.all, "classify"] as const,
+  classify: (text: string, model: SentimentModel = DEFAULT_MODEL) =>
+    [...analysisKeys.allClassify(), text, model] as const,
+};
+
+export interface NewsAnalysis extends AnalyzeResponse {
+  /** True when the backend was unreachable and the rule engine scored the query text. */
+  offline: boolean;
+}
+
+async function fetchNewsAnalysis(
+  query: string,
+  limit: number,
+  model: SentimentModel,
+  signal: AbortSignal
+): Promise<NewsAnalysis> {
+  try {
+    // The backend has no rule engine: fetch the headlines, then re-score them here.
+    if (model === "rules") {
+      const response = await analyzeNews({ query, limit }, signal);
+      return { ...rescoreWithRules(response), offline: false };
+    }
+    return { ...(await analyzeNews({ query, limit, model }, signal)), offline: false };
+  } catch (err) {
+    if (isApiError(err) && err.kind === "network") {
+      return { ...analyzeOffline(query), offline: true };
+    }
+    throw err;
+  }
+}
+
+export interface TextClassification extends ClassifyResponse {
+  /** True when the backend was unreachable and the rule engine scored the text. */
+  offline: boolean;
+}
+
+async function fetchClassification(
+  text: string,
+  model: SentimentModel,
+  signal: AbortSignal
+): Promise<TextClassification> {
+  if (model === "rules") return { ...classifyOffline(text), offline: false };
+  try {
+    return { ...(await classifyText({ text, model }, signal)), offline: false };
+  } catch (err) {
+    if (isApiError(err) && err.kind === "network") {
+      return { ...classifyOffline(text), offline: true };
+    }
+    throw err;
+  }
+}
+
+/** Shared by single-text scoring and batch runs, so repeated lines hit the cache. */
+export const classificationQuery = (text: string, model: SentimentModel = DEFAULT_MODEL) =>
+  queryOptions({
+    queryKey: analysisKeys.classify(text, model),
+    queryFn: ({ signal }) => fetchClassification(text, model, signal),
+  });
+
+export function useTextClassification(text: string, model: SentimentModel = DEFAULT_MODEL) {
+  return useQuery({ ...classificationQuery(text, model), enabled: text.length > 0 });
+}
+
+export function useNewsAnalysis(
+  query: string,
+  limit = DEFAULT_LIMIT,
+  model: SentimentModel = DEFAULT_MODEL
+) {
+  return useQuery({
+    queryKey: analysisKeys.news(query, limit, model),
+    queryFn: ({ signal }) => fetchNewsAnalysis(query, limit, model, signal),
+    enabled: query.length > 0,
+  });
+}
+
+/** Runs several news analyses side by side, sharing the cache with single searches. */
+export function useNewsAnalyses(
+  queries: string[],
+  limit = DEFAULT_LIMIT,
+  model: SentimentModel = DEFAULT_MODEL
+) {
+  return useQueries({
+    queries: queries.map((query) => ({
+      queryKey: analysisKeys.news(query, limit, model),
+      queryFn: ({ signal }: { signal: AbortSignal }) =>
+        fetchNewsAnalysis(query, limit, model, signal),
+    })),
+  });
+}
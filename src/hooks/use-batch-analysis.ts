@@ -0,0 +1,137 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { describeApiError, DEFAULT_MODEL, isTransientError, type SentimentModel } from "@/lib/api";
+import { toClassifiedResult, type AnalysisResult } from "@/lib/analysis";
+import { runWithConcurrency, validateBatchLine, type BatchLine } from "@/lib/batch";
+import { analysisKeys, classificationQuery } from "@/hooks/use-analysis";
+
+const BATCH_CONCURRENCY = 4;
+
+export type BatchRowStatus = "pending" | "done" | "error";
+
+export interface BatchRow extends BatchLine {
+  status: BatchRowStatus;
+  result?: AnalysisResult;
+  error?: string;
+  /** Whether the error may go away on another try; invalid lines and 4xx answers will not. */
+  retryable?: boolean;
+  offline?: boolean;
+}
+
+export interface BatchProgress {
+  total: number;
+  done: number;
+  failed: number;
+}
+
+/**
+ * Classifies a list of headlines one request per line, a few at a time.
+ * Each row keeps its own status so a failing line never sinks the batch,
+ * and failed rows can be retried on their own.
+ */
+export function useBatchAnalysis(model: SentimentModel = DEFAULT_MODEL) {
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  // Bumped on every start/cancel so workers from an older run stop writing.
+  const runToken = useRef(0);
+
+  const classifyRows = useCallback(
+    async (targets: BatchLine[]) => {
+      const token = ++runToken.current;
+      const isStale = () => token !== runToken.current;
+      const updateRow = (line: number, patch: Partial<BatchRow>) =>
+        setRows((prev) => prev.map((r) => (r.line === line ? { ...r, ...patch } : r)));
+      setRunning(true);
+
+      await runWithConcurrency(
+        targets.length,
+        BATCH_CONCURRENCY,
+        async (idx) => {
+          const target = targets[idx];
+          const invalid = validateBatchLine(target);
+          if (invalid) {
+            updateRow(target.line, { status: "error", error: invalid, retryable: false });
+            return;
+          }
+          try {
+            const data = await queryClient.fetchQuery(classificationQuery(target.text, model));
+            if (isStale()) return;
+            updateRow(target.line, {
+              status: "done",
+              result: toClassifiedResult(data, new Date()),
+              offline: data.offline,
+              error: undefined,
+              retryable: undefined,
+            });
+          } catch (err) {
+            if (isStale()) return;
+            updateRow(target.line, {
+              status: "error",
+              error: describeApiError(err),
+              retryable: isTransientError(err),
+            });
+          }
+        },
+        isStale
+      );
+
+      if (!isStale()) setRunning(false);
+    },
+    [queryClient, model]
+  );
+
+  const start = useCallback(
+    (lines: BatchLine[]) => {
+      setRows(lines.map((l) => ({ ...l, status: "pending" })));
+      return classifyRows(lines);
+    },
+    [classifyRows]
+  );
+
+  /** Re-runs rows that failed transiently; rows that would fail the same way stay marked. */
+  const retryFailed = useCallback(() => {
+    const failed = rows.filter((r) => r.status === "error" && r.retryable);
+    if (failed.length === 0) return;
+    const lines = new Set(failed.map((r) => r.line));
+    setRows((prev) =>
+      prev.map((r) =>
+        lines.has(r.line) ? { ...r, status: "pending", error: undefined, retryable: undefined } : r
+      )
+    );
+    return classifyRows(failed);
+  }, [rows, classifyRows]);
+
+  const cancel = useCallback(() => {
+    runToken.current++;
+    setRunning(false);
+    setRows((prev) =>
+      prev.map((r) =>
+        r.status === "pending" ? { ...r, status: "error", error: "Cancelled", retryable: true } : r
+      )
+    );
+    queryClient.cancelQueries({ queryKey: analysisKeys.allClassify() });
+  }, [queryClient]);
+
+  const clear = useCallback(() => {
+    runToken.current++;
+    setRunning(false);
+    setRows([]);
+  }, []);
+
+  const results = useMemo(
+    () => rows.flatMap((r) => (r.status === "done" && r.result ? [r.result] : [])),
+    [rows]
+  );
+
+  const progress: BatchProgress = {
+    total: rows.length,
+    done: rows.filter((r) => r.status === "done").length,
+    failed: rows.filter((r) => r.status === "error").length,
+  };
+
+  return { rows, results, progress, running, start, retryFailed, cancel, clear };
+}
+
+export type BatchAnalysis = ReturnType<typeof useBatchAnalysis>;
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import type { SentimentModel } from "@/lib/api";
+import {
+  addRun,
+  deleteRun,
+  getRun,
+  listRuns,
+  updateRun,
+  type AnalysisRun,
+} from "@/lib/history-db";
+
+export const historyKeys = {
+  all: ["history"] as const,
+  list: () => [...historyKeys.all, "list"] as const,
+  run: (id: string) => [...historyKeys.all, "run", id] as const,
+};
+
+/** Same query, limit, model and fetch time always map to the same run, so re-renders never duplicate it. */
+export const runIdFor = (query: string, limit: number, model: SentimentModel, createdAt: number) =>
+  `${createdAt.toString(36)}-${model}-${limit}-${encodeURIComponent(query)}`;
+
+export function useHistory() {
+  return useQuery({
+    queryKey: historyKeys.list(),
+    queryFn: listRuns,
+    staleTime: Infinity,
+  });
+}
+
+export function useHistoryRun(id: string) {
+  return useQuery({
+    queryKey: historyKeys.run(id),
+    queryFn: () => getRun(id),
+    enabled: id.length > 0,
+    staleTime: Infinity,
+  });
+}
+
+export function useHistoryActions() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: historyKeys.all });
+
+  const record = useMutation({
+    mutationFn: (run: AnalysisRun) => addRun(run),
+    onSuccess: (added) => {
+      if (added) invalidate();
+    },
+  });
+  const rename = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => updateRun(id, { name }),
+    onSuccess: invalidate,
+  });
+  const setPinned = useMutation({
+    mutationFn: ({ id, pinned }: { id: string; pinned: boolean }) => updateRun(id, { pinned }),
+    onSuccess: invalidate,
+  });
+  const remove = useMutation({
+    mutationFn: (id: string) => deleteRun(id),
+    onSuccess: invalidate,
+  });
+
+  return { record, rename, setPinned, remove };
+}
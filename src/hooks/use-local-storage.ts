@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import type { z } from "zod";
+
+const read = <T>(key: string, schema: z.ZodType<T>, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (raw === null) return fallback;
+    const parsed = schema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * `useState` backed by localStorage. Stored values are validated with
+ * `schema` on load, so a stale or hand-edited entry falls back to `initial`
+ * instead of breaking the page. Other tabs' writes are picked up too.
+ */
+export function useLocalStorage<T>(key: string, schema: z.ZodType<T>, initial: T) {
+  const [value, setValue] = useState<T>(() => read(key, schema, initial));
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Storage full or disabled: keep working with in-memory state.
+    }
+  }, [key, value]);
+
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === key) setValue(read(key, schema, initial));
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [key, schema, initial]);
+
+  const reset = useCallback(() => setValue(initial), [initial]);
+
+  return [value, setValue, reset] as const;
+}
@@ -0,0 +1,7 @@
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { DEFAULT_SETTINGS, SETTINGS_STORAGE_KEY, settingsSchema } from "@/lib/settings";
+
+/** User preferences that change how results are presented, persisted per browser. */
+export function useSettings() {
+  return useLocalStorage(SETTINGS_STORAGE_KEY, settingsSchema, DEFAULT_SETTINGS);
+}
@@ -0,0 +1,7 @@
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { DEFAULT_SYMBOL_TABLE, SYMBOLS_STORAGE_KEY, symbolTableSchema } from "@/lib/symbols";
+
+/** The companies entity recognition looks for, editable and persisted per browser. */
+export function useSymbolTable() {
+  return useLocalStorage(SYMBOLS_STORAGE_KEY, symbolTableSchema, DEFAULT_SYMBOL_TABLE);
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect } from "react";
+import { useQueries } from "@tanstack/react-query";
+
+import { analyzeNews, DEFAULT_MODEL, type SentimentModel } from "@/lib/api";
+import { rescoreWithRules } from "@/lib/analysis";
+import { DEFAULT_NEUTRAL_BAND, type NeutralBand } from "@/lib/sentiment-engine";
+import {
+  createWatchlistItem,
+  EMPTY_WATCHLIST,
+  recordSnapshot,
+  toSnapshot,
+  WATCHLIST_STORAGE_KEY,
+  watchlistSchema,
+} from "@/lib/watchlist";
+import { analysisKeys } from "@/hooks/use-analysis";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+
+const itemKey = (query: string, limit: number) => `${limit}:${query}`;
+
+/**
+ * Saved queries that are re-analyzed every `intervalMinutes` while the page
+ * is open. Each item keeps its latest and previous snapshot so the card can
+ * show how sentiment moved between runs.
+ */
+export function useWatchlist(
+  model: SentimentModel = DEFAULT_MODEL,
+  band: NeutralBand = DEFAULT_NEUTRAL_BAND
+) {
+  const [watchlist, setWatchlist] = useLocalStorage(
+    WATCHLIST_STORAGE_KEY,
+    watchlistSchema,
+    EMPTY_WATCHLIST
+  );
+  const intervalMs = watchlist.intervalMinutes * 60 * 1000;
+
+  const queries = useQueries({
+    queries: watchlist.items.map((item) => ({
+      queryKey: analysisKeys.watch(item.query, item.limit, model),
+      // The backend has no rule engine: fetch the headlines, then re-score them here.
+      queryFn: async ({ signal }: { signal: AbortSignal }) =>
+        model === "rules"
+          ? rescoreWithRules(await analyzeNews({ query: item.query, limit: item.limit }, signal))
+          : analyzeNews({ query: item.query, limit: item.limit, model }, signal),
+      staleTime: intervalMs,
+      refetchInterval: intervalMs,
+      refetchIntervalInBackground: true,
+    })),
+  });
+
+  useEffect(() => {
+    const fetched = new Map<string, ReturnType<typeof toSnapshot>>();
+    watchlist.items.forEach((item, idx) => {
+      const { data, dataUpdatedAt } = queries[idx] ?? {};
+      if (data && dataUpdatedAt) {
+        fetched.set(itemKey(item.query, item.limit), toSnapshot(data, dataUpdatedAt, model, band));
+      }
+    });
+    if (fetched.size === 0) return;
+
+    setWatchlist((prev) => {
+      let changed = false;
+      const items = prev.items.map((item) => {
+        const snapshot = fetched.get(itemKey(item.query, item.limit));
+        const next = snapshot ? recordSnapshot(item, snapshot) : item;
+        if (next !== item) changed = true;
+        return next;
+      });
+      return changed ? { ...prev, items } : prev;
+    });
+  }, [queries, watchlist.items, setWatchlist, model, band]);
+
+  const addItem = useCallback(
+    (name: string, query: string) => {
+      if (!query.trim()) return;
+      setWatchlist((prev) => ({ ...prev, items: [...prev.items, createWatchlistItem(name, query)] }));
+    },
+    [setWatchlist]
+  );
+
+  const removeItem = useCallback(
+    (id: string) =>
+      setWatchlist((prev) => ({ ...prev, items: prev.items.filter((item) => item.id !== id) })),
+    [setWatchlist]
+  );
+
+  const setIntervalMinutes = useCallback(
+    (intervalMinutes: number) => setWatchlist((prev) => ({ ...prev, intervalMinutes })),
+    [setWatchlist]
+  );
+
+  const entries = watchlist.items.map((item, idx) => ({ item, query: queries[idx] }));
+
+  return {
+    entries,
+    intervalMinutes: watchlist.intervalMinutes,
+    addItem,
+    removeItem,
+    setIntervalMinutes,
+  };
+}
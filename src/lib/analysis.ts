@@ -0,0 +1,207 @@
+import type { EntitySentiment } from "@/lib/entities";
+import type { EventType } from "@/lib/events";
+import type { ForexSignal } from "@/lib/forex";
+import type { MagnitudeFact } from "@/lib/magnitude";
+import type { MarketSignal } from "@/lib/market-signal";
+import {
+  DEFAULT_MODEL,
+  type AnalyzeResponse,
+  type Article,
+  type ClassifyResponse,
+  type ResultModel,
+  type SentimentLabel,
+  type SentimentSummary,
+} from "@/lib/api";
+import {
+  analyzeText,
+  classifyPolarity,
+  type ContributionModifier,
+  type ContributionRule,
+  type NeutralBand,
+  type SentimentBreakdown,
+  type TokenContribution,
+} from "@/lib/sentiment-engine";
+
+export type SentimentType = SentimentLabel | null;
+
+export interface SentimentExplanation {
+  compound: number;
+  breakdown: SentimentBreakdown;
+  /** Words and phrases that moved the score, in headline order. */
+  contributions: TokenContribution[];
+  /** Every rule and modifier that fired at least once. */
+  rulesFired: (ContributionRule | ContributionModifier)[];
+}
+
+export interface AnalysisResult {
+  headline: string;
+  sentiment: SentimentType;
+  polarity: number;
+  timestamp: Date;
+  explanation: string;
+  details: SentimentExplanation;
+  link?: string;
+  /** Publisher, split off the end of Google News titles. */
+  source?: string;
+  /** Which model produced `polarity`. */
+  model: ResultModel;
+  /** Companies named in the headline with their own sentiment; see `annotateEntities`. */
+  entities?: EntitySentiment[];
+  /** Currency move the headline describes, if any; see `annotateForex`. */
+  forex?: ForexSignal;
+  /** Direction for the chosen instrument, as opposed to tone; see `annotateSignals`. */
+  signal?: MarketSignal;
+  /** Event types the headline reports, e.g. an earnings beat; see `annotateEvents`. */
+  events?: EventType[];
+  /** Numeric moves such as "−15% stock price"; see `annotateMagnitudes`. */
+  facts?: MagnitudeFact[];
+  /** Polarity blended with the size of the largest fact, from −1 to +1. */
+  impact?: number;
+}
+
+// Longer tails after " - " are more likely part of the headline than a publisher.
+const MAX_PUBLISHER_LENGTH = 60;
+
+/**
+ * Google News titles end in " - Publisher". Uses the feed's own publisher
+ * name when the backend (or an imported file) sent one, otherwise the text
+ * after the last " - ".
+ */
+export const splitPublisher = (title: string, source?: string) => {
+  if (source) {
+    const suffix = ` - ${source}`;
+    return { headline: title.endsWith(suffix) ? title.slice(0, -suffix.length).trim() : title, source };
+  }
+  const idx = title.lastIndexOf(" - ");
+  const tail = idx > 0 ? title.slice(idx + 3).trim() : "";
+  if (!tail || tail.length > MAX_PUBLISHER_LENGTH) return { headline: title, source: undefined };
+  return { headline: title.slice(0, idx).trim(), source: tail };
+};
+
+const parsePublished = (published: string, fallback: Date) => {
+  if (!published) return fallback;
+  const ts = new Date(published);
+  return Number.isNaN(ts.getTime()) ? fallback : ts;
+};
+
+/**
+ * Token-level attribution always comes from the rule engine, since the
+ * backend only reports sentence-level scores; the compound score and the
+ * pos/neu/neg breakdown are the backend's whenever it sent them.
+ */
+export const explainHeadline = (
+  headline: string,
+  compound: number,
+  breakdown?: SentimentBreakdown
+): SentimentExplanation => {
+  const engine = analyzeText(headline);
+  const rulesFired = new Set<ContributionRule | ContributionModifier>();
+  for (const c of engine.contributions) {
+    rulesFired.add(c.rule);
+    c.modifiers.forEach((m) => rulesFired.add(m));
+  }
+  return {
+    compound,
+    breakdown: breakdown ?? engine.breakdown,
+    contributions: engine.contributions,
+    rulesFired: [...rulesFired],
+  };
+};
+
+export const toAnalysisResult = (
+  article: Article,
+  fetchedAt: Date,
+  model: ResultModel = DEFAULT_MODEL
+): AnalysisResult => {
+  const { headline, source } = splitPublisher(article.title, article.source);
+  return {
+    headline,
+    sentiment: article.sentiment,
+    polarity: article.polarity,
+    timestamp: parsePublished(article.published, fetchedAt),
+    explanation: article.explanation || `Polarity score: ${article.polarity.toFixed(3)}`,
+    details: explainHeadline(headline, article.polarity, article.scores),
+    link: article.link || undefined,
+    source,
+    model,
+  };
+};
+
+/** Classified text has no publish date, so it is stamped with the time it was scored. */
+export const toClassifiedResult = (response: ClassifyResponse, scoredAt: Date): AnalysisResult => ({
+  headline: response.text,
+  sentiment: response.sentiment,
+  polarity: response.polarity,
+  timestamp: scoredAt,
+  explanation: response.explanation || `Polarity score: ${response.polarity.toFixed(3)}`,
+  details: explainHeadline(response.text, response.polarity, response.scores),
+  model: response.model ?? DEFAULT_MODEL,
+});
+
+export const toAnalysisResults = (response: AnalyzeResponse, fetchedAt = new Date()) =>
+  response.articles.map((a) => toAnalysisResult(a, fetchedAt, a.model ?? response.model ?? DEFAULT_MODEL));
+
+/**
+ * Relabels results from their raw polarity with the user's neutral band,
+ * replacing whatever label the backend chose with its fixed cutoff.
+ */
+export const reclassifyResults = (results: AnalysisResult[], band: NeutralBand): AnalysisResult[] =>
+  results.map((r) => {
+    const sentiment = classifyPolarity(r.polarity, band);
+    return sentiment === r.sentiment ? r : { ...r, sentiment };
+  });
+
+export const summarizeArticles = (articles: Article[]): SentimentSummary => ({
+  positive: articles.filter((a) => a.sentiment === "positive").length,
+  negative: articles.filter((a) => a.sentiment === "negative").length,
+  neutral: articles.filter((a) => a.sentiment === "neutral").length,
+});
+
+/** Scores `text` with the in-browser rule engine, shaped like a classify response. */
+export const classifyOffline = (text: string): ClassifyResponse => {
+  const { sentiment, compound, breakdown } = analyzeText(text);
+  return {
+    text,
+    model: "rules",
+    sentiment,
+    polarity: compound,
+    explanation:
+      `Rule engine → compound=${compound.toFixed(3)}, ` +
+      `pos=${breakdown.pos.toFixed(3)}, neu=${breakdown.neu.toFixed(3)}, neg=${breakdown.neg.toFixed(3)}`,
+    scores: breakdown,
+  };
+};
+
+/**
+ * Builds a backend-shaped response for `text` using the in-browser rule
+ * engine. Used when the API is unreachable: the typed headline itself is
+ * scored instead of searching news about it.
+ */
+export const analyzeOffline = (text: string, now = new Date()): AnalyzeResponse => {
+  const { sentiment, polarity, explanation, scores } = classifyOffline(text);
+  const articles: Article[] = [
+    {
+      title: text,
+      link: "",
+      published: now.toISOString(),
+      sentiment,
+      polarity,
+      explanation,
+      scores,
+    },
+  ];
+  return { query: text, model: "rules", total: 1, summary: summarizeArticles(articles), articles };
+};
+
+/**
+ * Re-scores every headline of a backend response with the rule engine, for
+ * the "rules" model: the backend still finds the news, the browser scores it.
+ */
+export const rescoreWithRules = (response: AnalyzeResponse): AnalyzeResponse => {
+  const articles = response.articles.map((article) => {
+    const { headline } = splitPublisher(article.title, article.source);
+    const { sentiment, polarity, explanation, scores } = classifyOffline(headline);
+    return { ...article, sentiment, polarity, explanation, scores };
+  });
+  return { ...response, model: "rules", summary: summarizeArticles(articles), articles };
+};
@@ -0,0 +1,224 @@
+import { z } from "zod";
+
+export const API_BASE =
+  import.meta.env.VITE_API_BASE || "https://financial-sentiment-ai.onrender.com";
+
+export const DEFAULT_LIMIT = 10;
+
+const sentimentLabelSchema = z.enum(["positive", "negative", "neutral"]);
+
+/**
+ * `vader` and `finbert` run on the backend; `rules` is the in-browser rule
+ * engine, which needs the backend only to fetch news.
+ */
+export const sentimentModelSchema = z.enum(["vader", "finbert", "rules"]);
+
+/**
+ * Who scored a result. Imported files can add "unknown" (the row does not
+ * say) and "mixed" (a response whose rows came from different models).
+ */
+export const resultModelSchema = z.union([sentimentModelSchema, z.enum(["mixed", "unknown"])]);
+
+export const breakdownSchema = z.object({
+  pos: z.number(),
+  neu: z.number(),
+  neg: z.number(),
+});
+
+export const articleSchema = z.object({
+  title: z.string(),
+  link: z.string(),
+  published: z.string(),
+  /** Publisher name from the feed; older backends leave it out. */
+  source: z.string().optional(),
+  sentiment: sentimentLabelSchema,
+  polarity: z.number(),
+  explanation: z.string(),
+  scores: breakdownSchema.optional(),
+  /** Set on imported rows, which need not share one model; overrides the response's. */
+  model: resultModelSchema.optional(),
+});
+
+export const summarySchema = z.object({
+  positive: z.number().int().nonnegative(),
+  negative: z.number().int().nonnegative(),
+  neutral: z.number().int().nonnegative(),
+});
+
+export const analyzeResponseSchema = z.object({
+  query: z.string(),
+  /** Model that scored the articles; older backends only ran VADER and omit it. */
+  model: resultModelSchema.optional(),
+  total: z.number().int().nonnegative().optional(),
+  summary: summarySchema,
+  articles: z.array(articleSchema),
+});
+
+export const classifyResponseSchema = z.object({
+  text: z.string(),
+  model: sentimentModelSchema.optional(),
+  sentiment: sentimentLabelSchema,
+  polarity: z.number(),
+  explanation: z.string(),
+  scores: breakdownSchema.optional(),
+});
+
+export type SentimentLabel = z.infer<typeof sentimentLabelSchema>;
+export type SentimentModel = z.infer<typeof sentimentModelSchema>;
+export type ResultModel = z.infer<typeof resultModelSchema>;
+/** Models the backend can run itself. */
+export type BackendModel = Exclude<SentimentModel, "rules">;
+export type Article = z.infer<typeof articleSchema>;
+export type SentimentSummary = z.infer<typeof summarySchema>;
+export type AnalyzeResponse = z.infer<typeof analyzeResponseSchema>;
+export type ClassifyResponse = z.infer<typeof classifyResponseSchema>;
+
+export const DEFAULT_MODEL: BackendModel = "vader";
+
+export interface AnalyzeRequest {
+  query: string;
+  limit?: number;
+  model?: BackendModel;
+}
+
+/** Scores a single piece of text without searching news. */
+export interface ClassifyRequest {
+  text: string;
+  model?: BackendModel;
+}
+
+export type ApiErrorKind = "network" | "http" | "validation";
+
+/**
+ * Raised by every client call. `kind` tells callers whether the backend was
+ * unreachable, answered with a non-2xx status, or sent a payload that does
+ * not match the expected contract.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly issues?: z.ZodIssue[];
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    options: { status?: number; issues?: z.ZodIssue[]; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = options.status;
+    this.issues = options.issues;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+}
+
+export const isApiError = (err: unknown): err is ApiError =>
+  err instanceof ApiError;
+
+async function readErrorMessage(res: Response): Promise<string> {
+  const text = await res.text().catch(() => "");
+  try {
+    const body = JSON.parse(text);
+    if (body && typeof body.error === "string") return body.error;
+  } catch {
+    // not JSON, fall through to the raw text
+  }
+  return text || res.statusText || `HTTP ${res.status}`;
+}
+
+async function postJson<T>(
+  path: string,
+  body: unknown,
+  schema: z.ZodType<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new ApiError("network", "Could not reach the backend.", { cause: err });
+  }
+
+  if (!res.ok) {
+    const message = await readErrorMessage(res);
+    throw new ApiError("http", message, { status: res.status });
+  }
+
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch (err) {
+    throw new ApiError("validation", "Backend response was not valid JSON.", {
+      status: res.status,
+      cause: err,
+    });
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    throw new ApiError("validation", "Backend response did not match the expected format.", {
+      status: res.status,
+      issues: parsed.error.issues,
+    });
+  }
+  return parsed.data;
+}
+
+export function analyzeNews(
+  request: AnalyzeRequest,
+  signal?: AbortSignal
+): Promise<AnalyzeResponse> {
+  return postJson(
+    "/api/analyze",
+    {
+      query: request.query,
+      limit: request.limit ?? DEFAULT_LIMIT,
+      model: request.model ?? DEFAULT_MODEL,
+    },
+    analyzeResponseSchema,
+    signal
+  );
+}
+
+export function classifyText(
+  request: ClassifyRequest,
+  signal?: AbortSignal
+): Promise<ClassifyResponse> {
+  return postJson(
+    "/api/classify",
+    { text: request.text, model: request.model ?? DEFAULT_MODEL },
+    classifyResponseSchema,
+    signal
+  );
+}
+
+/**
+ * Only network failures and 5xx/429 answers are worth retrying; a 4xx, a 501
+ * (the selected model is not installed on the server) or a payload that fails
+ * validation will fail the same way again.
+ */
+export const isTransientError = (err: unknown) => {
+  if (!isApiError(err)) return false;
+  if (err.kind === "network") return true;
+  if (err.kind === "http") return err.status === 429 || ((err.status ?? 0) >= 500 && err.status !== 501);
+  return false;
+};
+
+export const describeApiError = (err: unknown) => {
+  if (isApiError(err) && err.kind === "http") {
+    return `Backend returned an error: ${err.message}`;
+  }
+  if (isApiError(err) && err.kind === "validation") {
+    return "Backend sent an unexpected response. Check the Flask console.";
+  }
+  return "Could not reach the backend. Is python app.py running on port 5000?";
+};
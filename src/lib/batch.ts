@@ -0,0 +1,65 @@
+import { parseCsvRows } from "@/lib/csv";
+
+export const MAX_BATCH_LINES = 500;
+export const MAX_HEADLINE_LENGTH = 500;
+
+/** Column names recognised as holding the headline when a CSV has a header row. */
+const HEADLINE_COLUMNS = ["headline", "title", "text"];
+
+export interface BatchLine {
+  /** 1-based line (or CSV row) number in the source, for error messages. */
+  line: number;
+  text: string;
+}
+
+const isCsv = (fileName?: string) => Boolean(fileName && /\.csv$/i.test(fileName));
+
+/**
+ * Splits pasted text or an uploaded TXT/CSV file into headlines. For CSV the
+ * column named headline/title/text is used when there is a header row,
+ * otherwise the first column. Blank lines are skipped.
+ */
+export function parseBatchInput(content: string, fileName?: string): BatchLine[] {
+  if (isCsv(fileName)) {
+    const rows = parseCsvRows(content);
+    if (rows.length === 0) return [];
+    const header = rows[0].cells.map((cell) => cell.trim().toLowerCase());
+    const column = header.findIndex((cell) => HEADLINE_COLUMNS.includes(cell));
+    const body = column >= 0 ? rows.slice(1) : rows;
+    return body
+      .map(({ line, cells }) => ({ line, text: (cells[Math.max(column, 0)] ?? "").trim() }))
+      .filter((l) => l.text);
+  }
+
+  return content
+    .split(/\r?\n/)
+    .map((text, idx) => ({ line: idx + 1, text: text.trim() }))
+    .filter((l) => l.text);
+}
+
+/** Returns why a line cannot be classified, or null when it is fine. */
+export const validateBatchLine = (line: BatchLine): string | null => {
+  if (line.text.length > MAX_HEADLINE_LENGTH) {
+    return `Longer than ${MAX_HEADLINE_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Calls `worker` for indices 0..count-1 with at most `limit` in flight.
+ * Stops handing out new indices once `shouldStop` returns true.
+ */
+export async function runWithConcurrency(
+  count: number,
+  limit: number,
+  worker: (index: number) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (next < count && !shouldStop()) {
+      await worker(next++);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, lane));
+}
@@ -0,0 +1,11 @@
+import type { ChartConfig } from "@/components/ui/chart";
+
+// Colours come from the design-system variables in index.css so charts
+// match the sentiment badges.
+export const sentimentChartConfig = {
+  count: { label: "Articles" },
+  polarity: { label: "Polarity" },
+  positive: { label: "Positive", color: "hsl(var(--positive))" },
+  negative: { label: "Negative", color: "hsl(var(--negative))" },
+  neutral: { label: "Neutral", color: "hsl(var(--neutral))" },
+} satisfies ChartConfig;
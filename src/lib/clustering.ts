@@ -0,0 +1,84 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import {
+  classifyPolarity,
+  DEFAULT_NEUTRAL_BAND,
+  tokenize,
+  type NeutralBand,
+} from "@/lib/sentiment-engine";
+
+/** Minimum Jaccard similarity of two headlines' token sets to count as the same story. */
+export const SIMILARITY_THRESHOLD = 0.6;
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "to", "in", "on", "for", "at", "by", "with", "from",
+  "as", "is", "are", "was", "be", "its", "it", "this", "that", "after", "amid", "over", "says",
+]);
+
+// Crude plural/verb folding so "shares fall" and "share falls" still match.
+const stem = (word: string) =>
+  word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word;
+
+export const headlineTokens = (headline: string) =>
+  new Set(
+    tokenize(headline)
+      .map((t) => t.norm)
+      .filter((w) => !STOPWORDS.has(w))
+      .map(stem)
+  );
+
+export const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return shared / (a.size + b.size - shared);
+};
+
+export interface StoryCluster {
+  /** The first member in input order, shown as the card's headline. */
+  lead: AnalysisResult;
+  /** All headlines in the cluster, lead included, in input order. */
+  members: AnalysisResult[];
+}
+
+/**
+ * Groups near-identical headlines (the same story from several outlets)
+ * with single-linkage clustering on token-set Jaccard similarity. Clusters
+ * keep the order of their first member, so sorting before clustering keeps
+ * the sort.
+ */
+export function clusterResults(results: AnalysisResult[], threshold = SIMILARITY_THRESHOLD): StoryCluster[] {
+  const tokens = results.map((r) => headlineTokens(r.headline));
+  const parent = results.map((_, idx) => idx);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < results.length; i++) {
+    for (let j = i + 1; j < results.length; j++) {
+      if (jaccard(tokens[i], tokens[j]) >= threshold) {
+        const [a, b] = [find(i), find(j)];
+        // Keep the earlier index as root so the lead is the first member.
+        if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+      }
+    }
+  }
+
+  const clusters = new Map<number, AnalysisResult[]>();
+  results.forEach((r, idx) => {
+    const root = find(idx);
+    clusters.set(root, [...(clusters.get(root) ?? []), r]);
+  });
+  return [...clusters.values()].map((members) => ({ lead: members[0], members }));
+}
+
+/**
+ * One result per story for "count each story once": the lead headline
+ * carrying the cluster's mean polarity and the sentiment that mean implies.
+ */
+export const storyRepresentatives = (
+  clusters: StoryCluster[],
+  band: NeutralBand = DEFAULT_NEUTRAL_BAND
+): AnalysisResult[] =>
+  clusters.map(({ lead, members }) => {
+    if (members.length === 1) return lead;
+    const polarity = members.reduce((sum, r) => sum + r.polarity, 0) / members.length;
+    return { ...lead, polarity, sentiment: classifyPolarity(polarity, band) };
+  });
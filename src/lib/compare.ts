@@ -0,0 +1,43 @@
+import type { Timeline } from "@/lib/timeline";
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 5;
+
+/** Series colours for compared queries, defined as --chart-N in index.css. */
+export const seriesColor = (idx: number) => `hsl(var(--chart-${(idx % MAX_COMPARE) + 1}))`;
+
+/** Trims queries and drops blanks and case-insensitive duplicates, keeping the first spelling. */
+export const uniqueQueries = (raw: string[]): string[] => {
+  const seen = new Set<string>();
+  const queries: string[] = [];
+  for (const value of raw) {
+    const query = value.trim();
+    if (!query || seen.has(query.toLowerCase())) continue;
+    seen.add(query.toLowerCase());
+    queries.push(query);
+  }
+  return queries;
+};
+
+/** Reads `?q=Tesla&q=Ford&q=GM`, dropping blanks and duplicates and capping at MAX_COMPARE. */
+export const parseCompareQueries = (params: URLSearchParams): string[] =>
+  uniqueQueries(params.getAll("q")).slice(0, MAX_COMPARE);
+
+export type MergedTimelineRow = { time: number } & Record<string, number>;
+
+/**
+ * Lines up the rolling averages of several timelines on one time axis. Each
+ * row holds the values of the series that have a bucket at that time, keyed
+ * by series key; recharts draws the gaps with `connectNulls`.
+ */
+export const mergeTimelines = (series: { key: string; timeline: Timeline }[]): MergedTimelineRow[] => {
+  const rows = new Map<number, MergedTimelineRow>();
+  for (const { key, timeline } of series) {
+    for (const bucket of timeline.buckets) {
+      const row = rows.get(bucket.time) ?? ({ time: bucket.time } as MergedTimelineRow);
+      row[key] = bucket.rolling;
+      rows.set(bucket.time, row);
+    }
+  }
+  return [...rows.values()].sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,63 @@
+export interface CsvRow {
+  /** 1-based source line the row starts on; quoted newlines and blank lines count. */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields may contain commas, newlines and
+ * doubled quotes. Accepts both \n and \r\n line endings and a leading BOM.
+ * Blank rows are dropped, but each row keeps its source line number.
+ */
+export function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === "\n" || (ch === "\r" && input[i + 1] !== "\n")) line++;
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+  return rows.filter((r) => r.cells.some((cell) => cell.trim() !== ""));
+}
+
+export const parseCsv = (text: string): string[][] => parseCsvRows(text).map((r) => r.cells);
+
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]) => rows.map((r) => r.map(escapeField).join(",")).join("\r\n");
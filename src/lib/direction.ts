@@ -0,0 +1,48 @@
+import { tokenize, type Token } from "@/lib/sentiment-engine";
+
+export type MoveDirection = "up" | "down";
+
+export interface Move extends Token {
+  direction: MoveDirection;
+  /**
+   * True for verbs that move their object rather than their subject:
+   * in "Fed cuts rates" it is the rates that go down.
+   */
+  transitive: boolean;
+}
+
+const UP_WORDS = new Set([
+  "strengthen", "gain", "rise", "rose", "climb", "rally", "jump", "firm", "advance", "appreciate",
+  "surge", "soar", "rebound", "recover", "high", "higher", "strong", "stronger", "strength",
+  "spike", "skyrocket", "leap", "grow", "grew",
+]);
+const DOWN_WORDS = new Set([
+  "weaken", "fall", "fell", "slip", "drop", "decline", "tumble", "slide", "slid", "depreciate",
+  "ease", "sink", "sank", "plunge", "retreat", "slump", "lose", "lost", "dip", "tank", "low",
+  "lower", "weak", "weaker", "weakness", "crash", "plummet", "collapse", "shrink", "shrank",
+]);
+const TRANSITIVE_UP = new Set(["hike", "raise", "boost", "increase"]);
+const TRANSITIVE_DOWN = new Set(["cut", "slash", "reduce", "trim"]);
+
+// Rough inflection folding: "weakens", "eased", "slipped", "rallies", "cutting".
+const stems = (word: string) => {
+  const base = word.replace(/(?:ing|ed|es|s|d)$/, "");
+  return [word, base, `${base}e`, base.replace(/([bdgmnpt])\1$/, "$1"), word.replace(/ie[sd]$/, "y")];
+};
+
+export const moveOf = (word: string): Pick<Move, "direction" | "transitive"> | null => {
+  const candidates = stems(word);
+  const has = (set: Set<string>) => candidates.some((c) => set.has(c));
+  if (has(UP_WORDS)) return { direction: "up", transitive: false };
+  if (has(DOWN_WORDS)) return { direction: "down", transitive: false };
+  if (has(TRANSITIVE_UP)) return { direction: "up", transitive: true };
+  if (has(TRANSITIVE_DOWN)) return { direction: "down", transitive: true };
+  return null;
+};
+
+/** Words in `text` that say something went up or down, in order. */
+export const findMoves = (text: string): Move[] =>
+  tokenize(text).flatMap((token) => {
+    const move = moveOf(token.norm);
+    return move ? [{ ...token, ...move }] : [];
+  });
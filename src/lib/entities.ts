@@ -0,0 +1,224 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import type { SentimentLabel, SentimentSummary } from "@/lib/api";
+import {
+  analyzeText,
+  classifyPolarity,
+  DEFAULT_NEUTRAL_BAND,
+  normalizeText,
+  type NeutralBand,
+} from "@/lib/sentiment-engine";
+import type { SymbolTable } from "@/lib/symbols";
+import { escapeRegExp } from "@/lib/utils";
+
+export interface EntityMention {
+  symbol: string;
+  name: string;
+  /** Character span of the mention in the headline. */
+  start: number;
+  end: number;
+}
+
+export interface EntitySentiment {
+  symbol: string;
+  name: string;
+  polarity: number;
+  sentiment: SentimentLabel;
+}
+
+const EXCHANGES = ["NYSE", "NASDAQ", "Nasdaq", "NYSEARCA", "AMEX", "LSE", "TSX", "OTC"];
+
+// `$tsla` is a cashtag even when the symbol is not in the table.
+const CASHTAG_PATTERN = /(?<![\w$])\$([A-Za-z]{1,6}(?:\.[A-Za-z])?)(?![\w.])/g;
+const EXCHANGE_PATTERN = new RegExp(
+  `\\b(?:${EXCHANGES.join("|")})\\s*:\\s*([A-Z]{1,6}(?:\\.[A-Z])?)\\b`,
+  "g"
+);
+// One- and two-letter tickers (F, GM, MS…) collide with ordinary words and
+// initials, so they are only recognized as cashtags or with an exchange.
+const BARE_TICKER_PATTERN = /(?<![\w$])[A-Z]{3,6}(?:\.[A-Z])?(?![\w.])/g;
+
+/**
+ * Builds a finder for cashtags, exchange-qualified tickers, bare all-caps
+ * tickers from the table and company names or aliases (case-sensitive,
+ * possessives allowed). Overlapping matches keep the longest.
+ */
+export function createEntityMatcher(table: SymbolTable) {
+  const bySymbol = new Map(table.map((e) => [e.symbol, e]));
+  const names = table.flatMap((e) =>
+    [e.name, ...e.aliases].map((alias) => ({ alias, entry: e }))
+  );
+  const nameByAlias = new Map(names.map((n) => [n.alias, n.entry]));
+  const namePattern = names.length
+    ? new RegExp(
+        `(?<![\\w$])(${names
+          .map((n) => n.alias)
+          .sort((a, b) => b.length - a.length)
+          .map(escapeRegExp)
+          .join("|")})(?:'s)?(?![\\w])`,
+        "g"
+      )
+    : null;
+
+  const mention = (symbol: string, start: number, end: number): EntityMention => ({
+    symbol,
+    name: bySymbol.get(symbol)?.name ?? symbol,
+    start,
+    end,
+  });
+
+  return (headline: string): EntityMention[] => {
+    const text = normalizeText(headline);
+    const found: EntityMention[] = [];
+
+    for (const m of text.matchAll(CASHTAG_PATTERN)) {
+      found.push(mention(m[1].toUpperCase(), m.index, m.index + m[0].length));
+    }
+    for (const m of text.matchAll(EXCHANGE_PATTERN)) {
+      found.push(mention(m[1], m.index, m.index + m[0].length));
+    }
+    for (const m of text.matchAll(BARE_TICKER_PATTERN)) {
+      if (bySymbol.has(m[0])) found.push(mention(m[0], m.index, m.index + m[0].length));
+    }
+    if (namePattern) {
+      for (const m of text.matchAll(namePattern)) {
+        const entry = nameByAlias.get(m[1]);
+        if (entry) found.push(mention(entry.symbol, m.index, m.index + m[0].length));
+      }
+    }
+
+    found.sort((a, b) => a.start - b.start || b.end - a.end);
+    return found.filter((m, idx) => idx === 0 || found.slice(0, idx).every((p) => p.end <= m.start));
+  };
+}
+
+export type EntityMatcher = ReturnType<typeof createEntityMatcher>;
+
+interface Clause {
+  start: number;
+  end: number;
+}
+
+// Commas (not thousands separators), semicolons, spaced dashes and contrast
+// conjunctions separate what is said about different companies.
+const CLAUSE_BREAK = /,(?!\d{3})|;|\s[-|]\s|\s(?:but|while|whereas|yet|though|although)\s/gi;
+const FILLER = /\b(?:and|or|&|vs|versus)\b/gi;
+
+export const splitClauses = (headline: string): Clause[] => {
+  const text = normalizeText(headline);
+  const clauses: Clause[] = [];
+  let start = 0;
+  for (const m of text.matchAll(CLAUSE_BREAK)) {
+    clauses.push({ start, end: m.index });
+    start = m.index + m[0].length;
+  }
+  clauses.push({ start, end: text.length });
+  return clauses.filter((c) => headline.slice(c.start, c.end).trim() !== "");
+};
+
+/**
+ * Attributes sentiment to each company in a headline. Every clause belongs
+ * to the companies it names; clauses naming none continue the previous
+ * subject ("Tesla, the EV maker, surges"), and clauses that are nothing but
+ * names ("Tesla, Ford slump") hand them to the next clause. A company that
+ * owns the whole headline keeps the headline's own polarity, so its label
+ * matches the selected model; otherwise its clauses are re-scored by the
+ * rule engine.
+ */
+export function entitySentiments(
+  headline: string,
+  polarity: number,
+  matcher: EntityMatcher,
+  band: NeutralBand = DEFAULT_NEUTRAL_BAND
+): EntitySentiment[] {
+  const mentions = matcher(headline);
+  if (mentions.length === 0) return [];
+
+  const clauses = splitClauses(headline);
+  const owners = clauses.map((c) => [
+    ...new Set(mentions.filter((m) => m.start >= c.start && m.start < c.end).map((m) => m.symbol)),
+  ]);
+
+  const isBare = (idx: number) => {
+    const { start, end } = clauses[idx];
+    let rest = headline.slice(start, end);
+    for (const m of mentions) {
+      if (m.start >= start && m.end <= end) {
+        rest = rest.slice(0, m.start - start) + " ".repeat(m.end - m.start) + rest.slice(m.end - start);
+      }
+    }
+    return owners[idx].length > 0 && !/\w/.test(rest.replace(FILLER, ""));
+  };
+  const kept: number[] = [];
+  let pending: string[] = [];
+  clauses.forEach((_, idx) => {
+    if (idx < clauses.length - 1 && isBare(idx)) {
+      pending = [...pending, ...owners[idx]];
+      return;
+    }
+    owners[idx] = [...new Set([...pending, ...owners[idx]])];
+    pending = [];
+    kept.push(idx);
+  });
+
+  // Subject-less clauses continue the previous subject, or the next one at the start.
+  let subject = owners[kept.find((idx) => owners[idx].length > 0) ?? kept[0]];
+  for (const idx of kept) {
+    if (owners[idx].length === 0) owners[idx] = subject;
+    else subject = owners[idx];
+  }
+
+  const symbols = [...new Set(mentions.map((m) => m.symbol))];
+  return symbols.map((symbol) => {
+    const own = kept.filter((idx) => owners[idx].includes(symbol));
+    const score =
+      own.length === kept.length
+        ? polarity
+        : analyzeText(own.map((idx) => headline.slice(clauses[idx].start, clauses[idx].end)).join(". "))
+            .compound;
+    return {
+      symbol,
+      name: mentions.find((m) => m.symbol === symbol)!.name,
+      polarity: score,
+      sentiment: classifyPolarity(score, band),
+    };
+  });
+}
+
+/** Adds per-company sentiment to each result; run after the band is applied. */
+export const annotateEntities = (
+  results: AnalysisResult[],
+  table: SymbolTable,
+  band: NeutralBand = DEFAULT_NEUTRAL_BAND
+): AnalysisResult[] => {
+  const matcher = createEntityMatcher(table);
+  return results.map((r) => ({ ...r, entities: entitySentiments(r.headline, r.polarity, matcher, band) }));
+};
+
+export interface EntityStats {
+  symbol: string;
+  name: string;
+  count: number;
+  summary: SentimentSummary;
+  average: number;
+}
+
+/** Per-company mention counts and average polarity, most mentioned first. */
+export const entityBreakdown = (results: AnalysisResult[]): EntityStats[] => {
+  const groups = new Map<string, EntitySentiment[]>();
+  for (const e of results.flatMap((r) => r.entities ?? [])) {
+    groups.set(e.symbol, [...(groups.get(e.symbol) ?? []), e]);
+  }
+  return [...groups.values()]
+    .map((items) => ({
+      symbol: items[0].symbol,
+      name: items[0].name,
+      count: items.length,
+      summary: {
+        positive: items.filter((e) => e.sentiment === "positive").length,
+        negative: items.filter((e) => e.sentiment === "negative").length,
+        neutral: items.filter((e) => e.sentiment === "neutral").length,
+      },
+      average: items.reduce((sum, e) => sum + e.polarity, 0) / items.length,
+    }))
+    .sort((a, b) => b.count - a.count || a.symbol.localeCompare(b.symbol));
+};
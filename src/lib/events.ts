@@ -0,0 +1,187 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import { isNegatedAt, normalizeText, tokenize } from "@/lib/sentiment-engine";
+
+export type EventType =
+  | "earnings-beat"
+  | "earnings-miss"
+  | "guidance"
+  | "upgrade"
+  | "downgrade"
+  | "merger"
+  | "layoffs"
+  | "regulatory"
+  | "dividend"
+  | "bankruptcy";
+
+interface EventRule {
+  type: EventType;
+  label: string;
+  /** Any of these marks the event… */
+  patterns: RegExp[];
+  /** …as long as one of these appears too, when set. */
+  context?: RegExp;
+  /** Ignore matches after a negation: "not expected to miss estimates". */
+  negatable?: boolean;
+}
+
+const ANALYST_CONTEXT =
+  /\b(?:analysts?|brokers?|ratings?|price targets?|(?:to|at) (?:buy|strong buy|overweight|outperform|equal[- ]weight|market perform|neutral|hold|underweight|underperform|sell))\b/;
+// What a beat or miss is measured against, right after the verb: "beats
+// quarterly earnings estimates", "misses on revenue". A bare "beats" or
+// "misses" is as often sport or a launch.
+const ESTIMATE_CUE = String.raw`(?:(?:on |in )?(?:(?:analysts'?|wall street|street|the|its|quarterly|q[1-4]|[\w-]+-quarter|full-year|profit|revenue|sales|earnings|eps) ){0,3}(?:estimates?|expectations|forecasts?|consensus|views?)|on (?:earnings|revenue|sales|profit|eps|the quarter|q[1-4]))\b`;
+const RESULTS_CONTEXT =
+  /\b(?:earnings|profits?|revenues?|sales|eps|estimates?|expectations|forecasts?|consensus|quarter(?:ly)?|q[1-4]|results)\b/;
+
+// Patterns run against the lowercased headline. Keep them tight: a missed tag
+// is better than a wrong one in a filter.
+const EVENT_RULES: EventRule[] = [
+  {
+    type: "earnings-beat",
+    label: "Earnings beat",
+    patterns: [
+      // "Tesla tops Ford in EV sales" is a ranking, not a results beat.
+      new RegExp(
+        String.raw`\b(?:beats?|beating|beaten|tops?|topped|exceeds?|exceeded|surpass(?:es|ed)?) ${ESTIMATE_CUE}`
+      ),
+      /\bblowout (?:quarter|earnings|results)\b/,
+      /\bbetter[- ]than[- ]expected\b/,
+    ],
+    context: RESULTS_CONTEXT,
+    negatable: true,
+  },
+  {
+    type: "earnings-miss",
+    label: "Earnings miss",
+    patterns: [
+      new RegExp(String.raw`\bmiss(?:es|ed|ing)? ${ESTIMATE_CUE}`),
+      /\b(?:falls?|fell) short\b/,
+      /\bworse[- ]than[- ]expected\b/,
+      /\bbelow (?:estimates|expectations|forecasts?)\b/,
+    ],
+    context: RESULTS_CONTEXT,
+    negatable: true,
+  },
+  {
+    type: "guidance",
+    label: "Guidance change",
+    patterns: [
+      /\b(?<!forward )guidance\b/,
+      // A bare "outlook" is as often the Fed's or the oil market's.
+      /\b(?:full[- ]year|annual|profit|earnings|sales|revenue|company) outlook\b/,
+      /\b(?:raises?|raised|lifts?|hikes?|cuts?|lowers?|lowered|slash(?:es|ed)?|trims?|withdraws?|reaffirms?|maintains?) (?:its |the )?(?:full[- ]year |annual )?(?:forecast|outlook)\b/,
+      /\bprofit warning\b/,
+      /\bwarns? (?:on|of) (?:profits?|sales|earnings|revenues?)\b/,
+    ],
+  },
+  {
+    type: "upgrade",
+    label: "Analyst upgrade",
+    patterns: [
+      /\bupgrade[sd]?\b/,
+      /\braised to (?:buy|overweight|outperform)\b/,
+      /\b(?:raises?|raised|lifts?|lifted|hikes?|hiked) (?:its |the )?price target\b/,
+      /\bprice target (?:raised|lifted|hiked)\b/,
+    ],
+    // "Apple upgrades iPhone camera" is a product, not a rating.
+    context: ANALYST_CONTEXT,
+  },
+  {
+    type: "downgrade",
+    label: "Analyst downgrade",
+    patterns: [
+      /\bdowngrade[sd]?\b/,
+      /\bcut to (?:sell|underweight|underperform|neutral|hold)\b/,
+      /\b(?:cuts?|lower(?:s|ed)?|slash(?:es|ed)?|trim(?:s|med)?) (?:its |the )?price target\b/,
+      /\bprice target (?:cut|lowered|slashed|trimmed)\b/,
+    ],
+    context: ANALYST_CONTEXT,
+  },
+  {
+    type: "merger",
+    label: "M&A",
+    patterns: [
+      /\b(?:acquires?|acquired|acquisitions?|mergers?|takeover|buyout|tender offer)\b/,
+      /\b(?:agrees? to|deal to|plans to|offer to) (?:buy|acquire|merge)\b/,
+      // "Microsoft to buy Activision", but not "time to buy stocks" or "rush to buy gold".
+      /(?<!\b(?:time|rush(?:es)?|scramble|rushing|where|what) )\bto (?:buy|acquire|merge)\b(?! (?:the dip|stocks?|shares|gold|bitcoin|bonds|homes?|now|more)\b)/,
+      // The noun, not the verb: "Exxon nears deal for Pioneer", not "Fed must deal with inflation".
+      /(?<!\b(?:to|must|can|will|should|cannot|could|would|may|might) )\bdeal for\b/,
+      // "Deal with" is as often a partnership, so it needs a price or a takeover word.
+      /(?:\$[\d.,]+ ?(?:bn|billion|m|mn|million|tn|trillion)?|merger|takeover|buyout|acquisition|all-stock|all-cash) deal with\b/,
+      /\bbids? for\b/,
+    ],
+  },
+  {
+    type: "layoffs",
+    label: "Layoffs",
+    patterns: [
+      /\b(?:layoffs?|laid off|redundancies|workforce reduction)\b/,
+      /\blay(?:s|ing)? off\b/,
+      /\b(?:cuts?|cutting|slash(?:es|ing)?|eliminat(?:es|ing)) (?:[\d,]+ |thousands of |hundreds of )?(?:jobs|roles|positions|staff|workers)\b/,
+      /\bjob cuts?\b/,
+    ],
+  },
+  {
+    type: "regulatory",
+    label: "Regulatory & legal",
+    patterns: [
+      /\b(?:sec|ftc|doj|fda|cftc|antitrust|regulators?|regulatory)\b/,
+      /\b(?:probes?|investigations?|subpoenas?|lawsuits?|sues?|sued|fined|fines|penalty|settlement|sanctions?|recalls?)\b/,
+    ],
+  },
+  {
+    type: "dividend",
+    label: "Dividend",
+    patterns: [/\bdividends?\b/, /\b(?:special|quarterly) payout\b/],
+  },
+  {
+    type: "bankruptcy",
+    label: "Bankruptcy",
+    patterns: [
+      /\bbankrupt(?:cy)?\b/,
+      /\bchapter (?:7|11)\b/,
+      /\binsolven(?:t|cy)\b/,
+      /\b(?:enters?|entered) (?:administration|receivership)\b/,
+      /\bdefaults? on\b/,
+    ],
+  },
+];
+
+export const EVENT_TYPES: { type: EventType; label: string }[] = EVENT_RULES.map(({ type, label }) => ({
+  type,
+  label,
+}));
+
+export const isEventType = (value: string): value is EventType =>
+  EVENT_RULES.some((rule) => rule.type === value);
+
+export const eventLabel = (type: EventType) => EVENT_RULES.find((rule) => rule.type === type)?.label ?? type;
+
+const matches = (rule: EventRule, text: string) => {
+  if (!rule.negatable) return rule.patterns.some((p) => p.test(text));
+  const tokens = tokenize(text);
+  return rule.patterns.some((p) =>
+    [...text.matchAll(new RegExp(p.source, "g"))].some((m) => {
+      const at = tokens.findIndex((t) => t.end > m.index);
+      return !isNegatedAt(tokens, at === -1 ? tokens.length : at);
+    })
+  );
+};
+
+/** Every event type a headline matches, in taxonomy order. */
+export const classifyEvents = (headline: string): EventType[] => {
+  const text = normalizeText(headline).toLowerCase();
+  return EVENT_RULES.filter((rule) => matches(rule, text) && (!rule.context || rule.context.test(text))).map(
+    (rule) => rule.type
+  );
+};
+
+export const annotateEvents = (results: AnalysisResult[]): AnalysisResult[] =>
+  results.map((r) => ({ ...r, events: classifyEvents(r.headline) }));
+
+export const eventCounts = (results: AnalysisResult[]) => {
+  const counts = Object.fromEntries(EVENT_RULES.map((rule) => [rule.type, 0])) as Record<EventType, number>;
+  for (const type of results.flatMap((r) => r.events ?? [])) counts[type]++;
+  return counts;
+};
@@ -0,0 +1,128 @@
+import { format } from "date-fns";
+
+import type { AnalysisResult } from "@/lib/analysis";
+import { toCsv } from "@/lib/csv";
+import { escapeFormula } from "@/lib/utils";
+import { buildXlsx } from "@/lib/xlsx";
+
+export type ExportFormat = "csv" | "json" | "ndjson" | "xlsx";
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension: string; mime: string }[] = [
+  { format: "csv", label: "CSV", extension: "csv", mime: "text/csv;charset=utf-8" },
+  { format: "xlsx", label: "Excel", extension: "xlsx", mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+  { format: "json", label: "JSON", extension: "json", mime: "application/json" },
+  { format: "ndjson", label: "NDJSON", extension: "ndjson", mime: "application/x-ndjson" },
+];
+
+export type ExportColumnKey =
+  | "headline"
+  | "sentiment"
+  | "polarity"
+  | "published"
+  | "source"
+  | "link"
+  | "query"
+  | "model"
+  | "signal"
+  | "events"
+  | "facts"
+  | "impact"
+  | "explanation";
+
+interface ExportContext {
+  query: string;
+}
+
+type ExportValue = string | number;
+
+/** Column keys double as CSV headers and JSON field names so exports read back cleanly. */
+export const EXPORT_COLUMNS: {
+  key: ExportColumnKey;
+  label: string;
+  value: (r: AnalysisResult, ctx: ExportContext) => ExportValue;
+}[] = [
+  { key: "headline", label: "Headline", value: (r) => r.headline },
+  { key: "sentiment", label: "Sentiment", value: (r) => r.sentiment ?? "" },
+  { key: "polarity", label: "Polarity", value: (r) => r.polarity },
+  { key: "published", label: "Published (ISO 8601)", value: (r) => r.timestamp.toISOString() },
+  { key: "source", label: "Source", value: (r) => r.source ?? "" },
+  { key: "link", label: "Link", value: (r) => r.link ?? "" },
+  { key: "query", label: "Query", value: (_, ctx) => ctx.query },
+  { key: "model", label: "Model", value: (r) => r.model },
+  { key: "signal", label: "Market signal", value: (r) => r.signal ?? "none" },
+  { key: "events", label: "Events", value: (r) => (r.events ?? []).join("; ") },
+  { key: "facts", label: "Extracted facts", value: (r) => (r.facts ?? []).map((f) => f.label).join("; ") },
+  { key: "impact", label: "Impact", value: (r) => r.impact ?? r.polarity },
+  { key: "explanation", label: "Explanation", value: (r) => r.explanation },
+];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnKey[] = EXPORT_COLUMNS.map((c) => c.key);
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumnKey[];
+  query: string;
+}
+
+const toRecords = (results: AnalysisResult[], options: ExportOptions) => {
+  // Keep the canonical column order whatever order the user ticked them in.
+  const columns = EXPORT_COLUMNS.filter((c) => options.columns.includes(c.key));
+  const ctx = { query: options.query };
+  return {
+    keys: columns.map((c) => c.key),
+    records: results.map((r) =>
+      Object.fromEntries(columns.map((c) => [c.key, c.value(r, ctx)]))
+    ) as Record<ExportColumnKey, ExportValue>[],
+  };
+};
+
+// Only text can smuggle in a formula; a negative polarity such as -0.4 stays a number.
+const csvCell = (value: ExportValue) => (typeof value === "number" ? String(value) : escapeFormula(value));
+
+export function buildExport(results: AnalysisResult[], options: ExportOptions): Blob {
+  const { keys, records } = toRecords(results, options);
+  const { mime } = EXPORT_FORMATS.find((f) => f.format === options.format)!;
+
+  switch (options.format) {
+    case "csv": {
+      const rows = [keys, ...records.map((rec) => keys.map((k) => csvCell(rec[k])))];
+      // BOM so Excel opens UTF-8 headlines correctly.
+      return new Blob(["\uFEFF" + toCsv(rows)], { type: mime });
+    }
+    case "json": {
+      const body = {
+        query: options.query,
+        exportedAt: new Date().toISOString(),
+        count: records.length,
+        results: records,
+      };
+      return new Blob([JSON.stringify(body, null, 2)], { type: mime });
+    }
+    case "ndjson":
+      return new Blob([records.map((rec) => JSON.stringify(rec)).join("\n") + "\n"], { type: mime });
+    case "xlsx":
+      return new Blob([buildXlsx([keys, ...records.map((rec) => keys.map((k) => rec[k]))], "Sentiment")], {
+        type: mime,
+      });
+  }
+}
+
+export const exportFileName = (query: string, exportFormat: ExportFormat, now = new Date()) => {
+  const slug = query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 40);
+  const { extension } = EXPORT_FORMATS.find((f) => f.format === exportFormat)!;
+  return `sentiment-${slug || "results"}-${format(now, "yyyyMMdd-HHmm")}.${extension}`;
+};
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the browser a tick to start the download before releasing the URL.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,54 @@
+import type { SentimentLabel } from "@/lib/api";
+import type { AnalysisResult } from "@/lib/analysis";
+import { isEventType, type EventType } from "@/lib/events";
+import { MARKET_SIGNALS, type MarketSignal } from "@/lib/market-signal";
+
+export type SentimentFilter = SentimentLabel | "all";
+
+export const SENTIMENT_FILTERS: SentimentFilter[] = ["all", "positive", "negative", "neutral"];
+
+export const parseSentimentFilter = (params: URLSearchParams): SentimentFilter => {
+  const value = params.get("filter") as SentimentFilter | null;
+  return value && SENTIMENT_FILTERS.includes(value) ? value : "all";
+};
+
+export const writeSentimentFilter = (params: URLSearchParams, filter: SentimentFilter) => {
+  if (filter === "all") params.delete("filter");
+  else params.set("filter", filter);
+  return params;
+};
+
+export const filterBySentiment = (results: AnalysisResult[], filter: SentimentFilter) =>
+  filter === "all" ? results : results.filter((r) => r.sentiment === filter);
+
+export type SignalFilter = MarketSignal | "all";
+
+export const SIGNAL_FILTERS: SignalFilter[] = ["all", ...MARKET_SIGNALS];
+
+export const parseSignalFilter = (params: URLSearchParams): SignalFilter => {
+  const value = params.get("signal") as SignalFilter | null;
+  return value && SIGNAL_FILTERS.includes(value) ? value : "all";
+};
+
+export const writeSignalFilter = (params: URLSearchParams, filter: SignalFilter) => {
+  if (filter === "all") params.delete("signal");
+  else params.set("signal", filter);
+  return params;
+};
+
+export const filterBySignal = (results: AnalysisResult[], filter: SignalFilter) =>
+  filter === "all" ? results : results.filter((r) => (r.signal ?? "none") === filter);
+
+// Selected event types are stored as repeated `event` params.
+export const parseEventFilter = (params: URLSearchParams): EventType[] =>
+  params.getAll("event").filter(isEventType);
+
+export const writeEventFilter = (params: URLSearchParams, events: EventType[]) => {
+  params.delete("event");
+  [...new Set(events)].forEach((e) => params.append("event", e));
+  return params;
+};
+
+/** Keeps results tagged with any of `events`; no selection keeps everything. */
+export const filterByEvents = (results: AnalysisResult[], events: EventType[]) =>
+  events.length === 0 ? results : results.filter((r) => r.events?.some((e) => events.includes(e)));
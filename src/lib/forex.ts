@@ -0,0 +1,203 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import { findMoves, type MoveDirection } from "@/lib/direction";
+import { normalizeText } from "@/lib/sentiment-engine";
+import { escapeRegExp } from "@/lib/utils";
+
+export type CurrencyDirection = "bullish" | "bearish";
+
+export interface CurrencySignal {
+  /** ISO 4217 code, e.g. "USD". */
+  currency: string;
+  direction: CurrencyDirection;
+}
+
+export interface ForexSignal {
+  /** Market-convention pair such as "EUR/USD", or a lone code when only one side is known. */
+  pair: string;
+  /** Whether the pair (or lone currency) is quoted higher. */
+  direction: "up" | "down";
+  currencies: CurrencySignal[];
+}
+
+// Market convention for which currency is quoted first: EUR/USD, USD/JPY…
+const PAIR_ORDER = ["EUR", "GBP", "AUD", "NZD", "USD", "CAD", "CHF", "CNY", "INR", "MXN", "JPY"];
+
+const CURRENCY_NAMES: Record<string, string[]> = {
+  USD: ["US dollar", "U.S. dollar", "dollar", "greenback"],
+  EUR: ["euro", "single currency"],
+  GBP: ["British pound", "pound", "sterling"],
+  JPY: ["Japanese yen", "yen"],
+  CHF: ["Swiss franc", "franc"],
+  CAD: ["Canadian dollar", "loonie"],
+  AUD: ["Australian dollar", "Aussie"],
+  NZD: ["New Zealand dollar", "kiwi"],
+  CNY: ["Chinese yuan", "yuan", "renminbi"],
+  INR: ["Indian rupee", "rupee"],
+  MXN: ["Mexican peso", "peso"],
+};
+
+const NAME_TO_CODE = new Map(
+  Object.entries(CURRENCY_NAMES).flatMap(([code, names]) => names.map((n) => [n.toLowerCase(), code]))
+);
+// Longest first, so "Canadian dollar" wins over "dollar".
+const NAME_PATTERN = new RegExp(
+  `\\b(${[...NAME_TO_CODE.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join("|")})s?(?!\\w)`,
+  "gi"
+);
+const CODES = PAIR_ORDER.join("|");
+const PAIR_PATTERN = new RegExp(`\\b(${CODES})\\/?(${CODES})\\b`, "g");
+const CODE_PATTERN = new RegExp(`\\b(${CODES})\\b`, "g");
+
+// Words that introduce the other side of the trade: "against the euro", "per dollar".
+const COUNTERPART = /\b(?:against|versus|vs|per|on|over|to)\b/i;
+
+// What may sit between a currency name and its verb: "dollar index rises",
+// "yen hits two-year low". Anything else ("dollar bonds rally") means the
+// currency only qualifies another noun. Pair notation needs no such check.
+const SUBJECT_GAP =
+  /^(?:\s+(?:\w+ly|index|further|again|extends?|hits?|touches|posts?|sets?|its|a|an|the|new|fresh|record|[\w.]+-\w+))*\s*$/i;
+// An adjective before its currency: "weaker dollar", "a stronger yen".
+const ADJECTIVE_GAP = /^\s+(?:the\s+|a\s+)?$/i;
+
+const fromMove = (d: MoveDirection): CurrencyDirection => (d === "up" ? "bullish" : "bearish");
+const opposite = (d: CurrencyDirection): CurrencyDirection => (d === "bullish" ? "bearish" : "bullish");
+
+interface CurrencyMention {
+  /** Base then quote for pair notation such as "EUR/USD". */
+  codes: string[];
+  start: number;
+  end: number;
+}
+
+const findCurrencies = (text: string): CurrencyMention[] => {
+  const found: CurrencyMention[] = [];
+  for (const m of text.matchAll(PAIR_PATTERN)) {
+    if (m[1] !== m[2]) found.push({ codes: [m[1], m[2]], start: m.index, end: m.index + m[0].length });
+  }
+  for (const m of text.matchAll(CODE_PATTERN)) {
+    found.push({ codes: [m[1]], start: m.index, end: m.index + m[0].length });
+  }
+  for (const m of text.matchAll(NAME_PATTERN)) {
+    const code = NAME_TO_CODE.get(m[1].toLowerCase());
+    if (code) found.push({ codes: [code], start: m.index, end: m.index + m[0].length });
+  }
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  return found.filter((m, idx) => found.slice(0, idx).every((p) => p.end <= m.start));
+};
+
+/**
+ * Reads a headline as a currency move: each direction word ("weakens",
+ * "rallies", "two-year high") applies to the currency right before it, and
+ * a currency introduced after it ("against the euro") takes the other side. Pair
+ * notation moves the base one way and the quote the other. Returns null when
+ * the headline names no currency as the subject of a move.
+ *
+ * Regression cases:
+ * - "Stocks fall as dollar strengthens" → USD bullish
+ * - "Gold hits record high as dollar slips" → USD bearish
+ * - "Weaker dollar lifts stocks" → USD bearish
+ * - "Yen slides to 34-year low versus the greenback" → USD/JPY up
+ * - "Tesla raises $2 billion, dollar bonds rally" → null
+ */
+export function forexSignal(headline: string): ForexSignal | null {
+  const text = normalizeText(headline);
+  const mentions = findCurrencies(text);
+  if (mentions.length === 0) return null;
+  // "Fed hikes rates" moves rates, not whichever currency comes next.
+  const verbs = findMoves(text)
+    .filter((m) => !m.transitive)
+    .map((m) => ({ ...m, direction: fromMove(m.direction) }));
+  if (verbs.length === 0) return null;
+
+  const signals = new Map<string, CurrencyDirection>();
+  const assign = (codes: string[], direction: CurrencyDirection) => {
+    const [base, quote] = codes;
+    if (!signals.has(base)) signals.set(base, direction);
+    if (quote && !signals.has(quote)) signals.set(quote, opposite(direction));
+  };
+
+  const subjects = verbs.map((verb, idx) => {
+    const after = idx > 0 ? verbs[idx - 1].end : 0;
+    const before = mentions.filter((m) => m.end <= verb.start && m.start >= after);
+    const nearest = before[before.length - 1];
+    if (!nearest) return null;
+    return nearest.codes.length > 1 || SUBJECT_GAP.test(text.slice(nearest.end, verb.start)) ? nearest : null;
+  });
+  // "Slides to a record low" keeps the subject of "slides"; "weaker dollar
+  // lifts stocks" puts the currency after its adjective, unless a later verb
+  // claims it ("stocks fall as dollar strengthens").
+  subjects.forEach((subject, idx) => {
+    if (subject) return;
+    if (idx > 0) {
+      subjects[idx] = subjects[idx - 1];
+      return;
+    }
+    const next = mentions.find((m) => m.start >= verbs[idx].end);
+    subjects[idx] =
+      next && !subjects.includes(next) && ADJECTIVE_GAP.test(text.slice(verbs[idx].end, next.start)) ? next : null;
+  });
+
+  verbs.forEach((verb, idx) => {
+    const subject = subjects[idx];
+    if (!subject) return;
+    assign(subject.codes, verb.direction);
+    if (subject.codes.length > 1) return;
+    const until = subjects.find((s) => s && s.start > verb.end)?.start ?? text.length;
+    const counterpart = mentions.find(
+      (m) =>
+        m.start >= verb.end &&
+        m.end <= until &&
+        !subjects.includes(m) &&
+        COUNTERPART.test(text.slice(verb.end, m.start))
+    );
+    if (counterpart) assign(counterpart.codes, opposite(verb.direction));
+  });
+
+  const currencies = [...signals.entries()].map(([currency, direction]) => ({ currency, direction }));
+  if (currencies.length === 0) return null;
+
+  const [first, second] = currencies;
+  if (!second) {
+    return { pair: first.currency, direction: first.direction === "bullish" ? "up" : "down", currencies };
+  }
+  const [base, quote] = [first, second].sort(
+    (a, b) => PAIR_ORDER.indexOf(a.currency) - PAIR_ORDER.indexOf(b.currency)
+  );
+  return {
+    pair: `${base.currency}/${quote.currency}`,
+    direction: base.direction === "bullish" ? "up" : "down",
+    currencies,
+  };
+}
+
+export const annotateForex = (results: AnalysisResult[]): AnalysisResult[] =>
+  results.map((r) => ({ ...r, forex: forexSignal(r.headline) ?? undefined }));
+
+export interface CurrencyStats {
+  currency: string;
+  bullish: number;
+  bearish: number;
+  /** (bullish − bearish) / signals, from −1 (all bearish) to +1 (all bullish). */
+  bias: number;
+}
+
+/** Directional calls per currency across a result set, most discussed first. */
+export const currencyBreakdown = (results: AnalysisResult[]): CurrencyStats[] => {
+  const counts = new Map<string, { bullish: number; bearish: number }>();
+  for (const s of results.flatMap((r) => r.forex?.currencies ?? [])) {
+    const entry = counts.get(s.currency) ?? { bullish: 0, bearish: 0 };
+    entry[s.direction]++;
+    counts.set(s.currency, entry);
+  }
+  return [...counts.entries()]
+    .map(([currency, { bullish, bearish }]) => ({
+      currency,
+      bullish,
+      bearish,
+      bias: (bullish - bearish) / (bullish + bearish),
+    }))
+    .sort((a, b) => b.bullish + b.bearish - (a.bullish + a.bearish) || a.currency.localeCompare(b.currency));
+};
@@ -0,0 +1,111 @@
+import type { AnalyzeResponse, SentimentModel } from "@/lib/api";
+
+const DB_NAME = "financial-sentiment";
+const DB_VERSION = 1;
+const RUNS_STORE = "runs";
+/** Unpinned runs kept; older ones are dropped as new runs come in. */
+export const MAX_RECENT_RUNS = 50;
+
+/**
+ * One completed analysis as stored in IndexedDB. The raw backend payload is
+ * kept rather than the mapped `AnalysisResult`s so reopened runs go through
+ * the same mapping as fresh ones.
+ */
+export interface AnalysisRun {
+  id: string;
+  name: string;
+  query: string;
+  limit: number;
+  createdAt: number;
+  pinned: boolean;
+  /** Model picked when the run was made; missing on runs saved before it was recorded. */
+  model?: SentimentModel;
+  /** Scored by the in-browser fallback because the backend was unreachable. */
+  offline: boolean;
+  response: AnalyzeResponse;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RUNS_STORE)) {
+          const store = db.createObjectStore(RUNS_STORE, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(RUNS_STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([promisify(run(tx.objectStore(RUNS_STORE))), done]);
+  return result;
+}
+
+/** Pinned runs first, then newest first. */
+export const compareRuns = (a: AnalysisRun, b: AnalysisRun) =>
+  Number(b.pinned) - Number(a.pinned) || b.createdAt - a.createdAt;
+
+export async function listRuns(): Promise<AnalysisRun[]> {
+  const runs = await withStore("readonly", (store) => store.getAll() as IDBRequest<AnalysisRun[]>);
+  return runs.sort(compareRuns);
+}
+
+export async function getRun(id: string): Promise<AnalysisRun | null> {
+  const run = await withStore("readonly", (store) => store.get(id) as IDBRequest<AnalysisRun | undefined>);
+  return run ?? null;
+}
+
+/**
+ * Stores `run` unless a run with the same id already exists, then drops the
+ * oldest unpinned runs past MAX_RECENT_RUNS. Returns whether it was added.
+ */
+export async function addRun(run: AnalysisRun): Promise<boolean> {
+  if (await getRun(run.id)) return false;
+  await withStore("readwrite", (store) => store.put(run));
+  const stale = (await listRuns()).filter((r) => !r.pinned).slice(MAX_RECENT_RUNS);
+  for (const { id } of stale) await deleteRun(id);
+  return true;
+}
+
+export async function updateRun(
+  id: string,
+  patch: Partial<Pick<AnalysisRun, "name" | "pinned">>
+): Promise<AnalysisRun> {
+  const run = await getRun(id);
+  if (!run) throw new Error(`No saved analysis with id ${id}`);
+  const next = { ...run, ...patch };
+  await withStore("readwrite", (store) => store.put(next));
+  return next;
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
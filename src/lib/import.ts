@@ -0,0 +1,209 @@
+import { z } from "zod";
+
+import {
+  resultModelSchema,
+  type AnalyzeResponse,
+  type Article,
+  type ResultModel,
+} from "@/lib/api";
+import { summarizeArticles } from "@/lib/analysis";
+import { parseCsv } from "@/lib/csv";
+import { analyzeText, classifyCompound } from "@/lib/sentiment-engine";
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const optionalText = z
+  .union([z.string(), z.number()])
+  .optional()
+  .transform((v) => (v === undefined ? "" : String(v).trim()));
+
+const optionalNumber = z
+  .union([z.number(), z.string()])
+  .optional()
+  .transform((v, ctx) => {
+    if (v === undefined || v === "") return undefined;
+    const n = typeof v === "number" ? v : Number(v);
+    if (!Number.isFinite(n) || n < -1 || n > 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "polarity must be a number between -1 and 1" });
+      return z.NEVER;
+    }
+    return n;
+  });
+
+/**
+ * One exported row. Every column except the headline may have been
+ * unticked in the export dialog, so everything else is optional.
+ */
+export const importedRecordSchema = z.object({
+  headline: z.string().trim().min(1, "headline is empty"),
+  sentiment: z
+    .union([z.enum(["positive", "negative", "neutral"]), z.literal("")])
+    .optional()
+    .transform((v) => v || undefined),
+  polarity: optionalNumber,
+  published: optionalText,
+  source: optionalText,
+  link: optionalText,
+  query: optionalText,
+  explanation: optionalText,
+  model: z
+    .union([resultModelSchema, z.literal("")])
+    .optional()
+    .transform((v) => v || undefined),
+});
+
+export type ImportedRecord = z.infer<typeof importedRecordSchema>;
+
+const jsonExportSchema = z.union([
+  z.object({ query: z.string().optional(), results: z.array(z.unknown()) }),
+  z.array(z.unknown()),
+]);
+
+export interface SkippedRow {
+  row: number;
+  message: string;
+}
+
+export interface ImportedResults {
+  query: string;
+  response: AnalyzeResponse;
+  skipped: SkippedRow[];
+}
+
+/** Raised when a file cannot be read as one of the app's export formats at all. */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+// Headers written by the export before it had a column picker.
+const LEGACY_HEADERS: Record<string, string> = {
+  headline: "headline",
+  sentiment: "sentiment",
+  link: "link",
+  explanation: "explanation",
+  date: "date",
+  time: "time",
+};
+
+function csvRecords(content: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const keys = header.map((h) => {
+    const key = h.trim();
+    return LEGACY_HEADERS[key.toLowerCase()] ?? key;
+  });
+  if (!keys.includes("headline")) {
+    throw new ImportError("The CSV has no headline column. Is it an export from this app?");
+  }
+  return rows.map((row) => {
+    const record: Record<string, string> = Object.fromEntries(keys.map((k, i) => [k, row[i] ?? ""]));
+    if (!record.published && record.date) {
+      record.published = `${record.date} ${record.time ?? ""}`.trim();
+    }
+    return record;
+  });
+}
+
+function jsonRecords(content: string, fileName: string): { query?: string; records: unknown[] } {
+  if (/\.ndjson$/i.test(fileName) || /\.jsonl$/i.test(fileName)) {
+    return {
+      records: content
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .map((line, idx) => {
+          try {
+            return JSON.parse(line);
+          } catch {
+            throw new ImportError(`Line ${idx + 1} is not valid JSON.`);
+          }
+        }),
+    };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new ImportError("The file is not valid JSON.");
+  }
+  const parsed = jsonExportSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new ImportError("Expected an exported results file or an array of results.");
+  }
+  return Array.isArray(parsed.data)
+    ? { records: parsed.data }
+    : { query: parsed.data.query, records: parsed.data.results };
+}
+
+const toArticle = (record: ImportedRecord, fallbackDate: Date): Article => {
+  const published = record.published ? new Date(record.published) : null;
+  // Exports with the polarity column switched off are re-scored by the rule
+  // engine, so those rows are the rule engine's whatever the file says.
+  const rescored = record.polarity === undefined;
+  const polarity = record.polarity ?? analyzeText(record.headline).compound;
+  return {
+    title: record.headline,
+    source: record.source || undefined,
+    link: record.link,
+    published: (published && !Number.isNaN(published.getTime()) ? published : fallbackDate).toISOString(),
+    sentiment: record.sentiment ?? classifyCompound(polarity),
+    polarity,
+    explanation: record.explanation,
+    model: rescored ? "rules" : (record.model ?? "unknown"),
+  };
+};
+
+/** The one model every row shares, or "mixed" when they disagree. */
+const responseModel = (articles: Article[]): ResultModel => {
+  const models = new Set(articles.map((a) => a.model ?? "unknown"));
+  return models.size === 1 ? [...models][0] : "mixed";
+};
+
+/**
+ * Reads a CSV, JSON or NDJSON file written by the export dialog (or the
+ * older hand-built CSV) back into a backend-shaped response. Rows that fail
+ * validation are skipped and reported rather than failing the whole file.
+ */
+export function parseImport(content: string, fileName: string, now = new Date()): ImportedResults {
+  const isCsv = /\.csv$/i.test(fileName);
+  const { query: fileQuery, records } = isCsv
+    ? { query: undefined, records: csvRecords(content) }
+    : jsonRecords(content, fileName);
+
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows; this one has ${records.length}.`);
+  }
+
+  const skipped: SkippedRow[] = [];
+  const valid: ImportedRecord[] = [];
+  records.forEach((raw, idx) => {
+    const parsed = importedRecordSchema.safeParse(raw);
+    if (parsed.success) {
+      valid.push(parsed.data);
+    } else {
+      const issue = parsed.error.issues[0];
+      skipped.push({ row: idx + 1, message: `${issue.path.join(".") || "row"}: ${issue.message}` });
+    }
+  });
+
+  if (valid.length === 0) {
+    throw new ImportError("No valid rows were found in the file.");
+  }
+
+  const query = fileQuery || valid.find((r) => r.query)?.query || fileName.replace(/\.[^.]+$/, "");
+  const articles = valid.map((r) => toArticle(r, now));
+  return {
+    query,
+    skipped,
+    response: {
+      query,
+      model: responseModel(articles),
+      total: articles.length,
+      summary: summarizeArticles(articles),
+      articles,
+    },
+  };
+}
@@ -0,0 +1,217 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import { findMoves, type Move } from "@/lib/direction";
+import { normalizeText, tokenize, type Token } from "@/lib/sentiment-engine";
+
+export type MagnitudeUnit = "percent" | "bps" | "currency" | "multiple";
+
+/** A directional number read from a headline, e.g. "crashes 15%". */
+export interface MagnitudeFact {
+  unit: MagnitudeUnit;
+  /** Absolute size in `unit`: 15 for 15%, 2 for "2x", 2.1e9 for "$2.1bn". */
+  value: number;
+  direction: 1 | -1;
+  /** What moved, e.g. "stock price" or "revenue"; empty when unknown. */
+  subject: string;
+  /** Display form such as "−15% stock price". */
+  label: string;
+  /** 0 (negligible) to 1 (huge); see `strengthOf` for how units compare. */
+  strength: number;
+}
+
+const SCALES: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  m: 1e6, mn: 1e6, mln: 1e6, million: 1e6,
+  b: 1e9, bn: 1e9, billion: 1e9,
+  tn: 1e12, trillion: 1e12,
+};
+
+const QUANTITY_PATTERN =
+  /(?<![\w.])([+\-−])?([$€£])?(\d+(?:,\d{3})*(?:\.\d+)?)\s?(%|percent|per cent|pct|bps|bp|basis points?|x|times|trillion|tn|billion|bn|b|million|mln|mn|m|thousand|k)?(?![\w%])/gi;
+const MULTIPLE_WORDS: Record<string, number> = { double: 2, doubles: 2, doubled: 2, triple: 3, triples: 3, tripled: 3 };
+const HALVES = /\b(?:halve[sd]?|halving)\b/i;
+
+// A number after these is a level ("rises to 5%"), not a change.
+const LEVEL_WORDS = new Set(["to", "at", "above", "below", "past", "near", "of", "from", "hits", "tops"]);
+// Skipped when looking for the word before a number: "falls by nearly 15%".
+const HEDGES = new Set(["by", "about", "nearly", "almost", "around", "roughly", "some", "over", "more", "than", "a", "an"]);
+// How far (in tokens) a direction word may sit from its number, within a clause.
+const MOVE_WINDOW = 5;
+const CLAUSE_BREAK = /[,;]|\s[-|]\s/;
+
+const SUBJECTS: Record<string, string> = {
+  stock: "stock price", stocks: "stock price", share: "stock price", shares: "stock price",
+  price: "price", prices: "price", revenue: "revenue", sales: "sales", profit: "profit",
+  profits: "profit", earnings: "earnings", eps: "EPS", margin: "margin", margins: "margin",
+  yield: "yield", yields: "yield", rate: "rates", rates: "rates", oil: "oil", crude: "oil",
+  gold: "gold", bitcoin: "bitcoin", dividend: "dividend", output: "output", production: "output",
+  deliveries: "deliveries", orders: "orders", inflation: "inflation", unemployment: "unemployment",
+  gdp: "GDP", guidance: "guidance", forecast: "forecast", index: "index", valuation: "valuation",
+};
+
+// A currency amount says nothing about size relative to the company ($2bn is
+// huge for one firm and routine for another), so it counts at most like a ~3%
+// move: 0.25 at $1tn, about 0.2 at $2bn, about 0.15 at $10m.
+const CURRENCY_WEIGHT = 0.25;
+
+// Relative moves saturate towards 1: 15% ≈ 0.78, 2% ≈ 0.18, 25 bps ≈ 0.39, 2x ≈ 0.63.
+const strengthOf = (unit: MagnitudeUnit, value: number) => {
+  switch (unit) {
+    case "percent":
+      return 1 - Math.exp(-value / 10);
+    case "bps":
+      return 1 - Math.exp(-value / 50);
+    case "multiple":
+      return 1 - Math.exp(-(value - 1));
+    case "currency":
+      return CURRENCY_WEIGHT * Math.min(1, Math.log10(Math.max(value, 1)) / 12);
+  }
+};
+
+const formatAmount = (value: number) => {
+  for (const [suffix, scale] of [["tn", 1e12], ["bn", 1e9], ["m", 1e6], ["k", 1e3]] as const) {
+    if (value >= scale) return `${+(value / scale).toFixed(1)}${suffix}`;
+  }
+  return String(value);
+};
+
+const formatFact = (unit: MagnitudeUnit, value: number, direction: 1 | -1, currency: string) => {
+  const sign = direction > 0 ? "+" : "−";
+  switch (unit) {
+    case "percent":
+      return `${sign}${value}%`;
+    case "bps":
+      return `${sign}${value} bps`;
+    case "multiple":
+      return `${value}x`;
+    case "currency":
+      return `${sign}${currency}${formatAmount(value)}`;
+  }
+};
+
+interface Quantity {
+  unit: MagnitudeUnit;
+  value: number;
+  start: number;
+  end: number;
+  /** Explicit sign or implied direction ("doubles"), when the number carries one. */
+  sign?: 1 | -1;
+  currency: string;
+}
+
+const findQuantities = (text: string): Quantity[] => {
+  const found: Quantity[] = [];
+  for (const m of text.matchAll(QUANTITY_PATTERN)) {
+    const [raw, signChar, currency = "", digits, rawUnit = ""] = m;
+    const unitWord = rawUnit.toLowerCase();
+    const number = Number(digits.replace(/,/g, ""));
+    const sign = signChar ? (signChar === "+" ? 1 : -1) : undefined;
+    const span = { start: m.index, end: m.index + raw.length, sign, currency };
+    if (currency) {
+      found.push({ ...span, unit: "currency", value: number * (SCALES[unitWord] ?? 1) });
+    } else if (["%", "percent", "per cent", "pct"].includes(unitWord)) {
+      found.push({ ...span, unit: "percent", value: number });
+    } else if (["bps", "bp"].includes(unitWord) || unitWord.startsWith("basis")) {
+      found.push({ ...span, unit: "bps", value: number });
+    } else if ((unitWord === "x" || unitWord === "times") && number > 1) {
+      found.push({ ...span, unit: "multiple", value: number, sign: 1 });
+    }
+  }
+  for (const m of text.matchAll(/\b(?:doubles?|doubled|triples?|tripled)\b/gi)) {
+    const value = MULTIPLE_WORDS[m[0].toLowerCase()];
+    found.push({ unit: "multiple", value, start: m.index, end: m.index + m[0].length, sign: 1, currency: "" });
+  }
+  const halves = text.match(HALVES);
+  if (halves?.index !== undefined) {
+    found.push({
+      unit: "percent",
+      value: 50,
+      start: halves.index,
+      end: halves.index + halves[0].length,
+      sign: -1,
+      currency: "",
+    });
+  }
+  return found;
+};
+
+const subjectNear = (tokens: Token[], from: number, to: number, skip: string[] = []) => {
+  for (let i = Math.max(0, from); i < Math.min(tokens.length, to); i++) {
+    const subject = SUBJECTS[tokens[i].norm];
+    if (subject && !skip.includes(subject)) return subject;
+  }
+  return "";
+};
+
+/**
+ * Reads numeric changes out of a headline: percentages, basis points,
+ * currency amounts and multiples, each paired with the direction word next
+ * to it ("crashes 15%", "up 3%", "a 20% jump", "doubles"). Numbers that state
+ * a level ("rises to $90") or carry no direction are ignored.
+ */
+export function extractMagnitudes(headline: string): MagnitudeFact[] {
+  const text = normalizeText(headline);
+  const tokens = tokenize(text);
+  const moves = findMoves(text);
+  const tokenIndex = (offset: number) => {
+    const idx = tokens.findIndex((t) => t.end > offset);
+    return idx === -1 ? tokens.length : idx;
+  };
+
+  return findQuantities(text).flatMap((q) => {
+    const at = tokenIndex(q.start);
+    let prev = at - 1;
+    while (prev >= 0 && HEDGES.has(tokens[prev].norm)) prev--;
+    if (prev >= 0 && LEVEL_WORDS.has(tokens[prev].norm) && q.sign === undefined) return [];
+
+    const moveIndex = (m: Move) => tokenIndex(m.start);
+    const sameClause = (from: number, to: number) => !CLAUSE_BREAK.test(text.slice(from, to));
+    const before = moves.filter(
+      (m) => m.end <= q.start && at - moveIndex(m) <= MOVE_WINDOW && sameClause(m.end, q.start)
+    );
+    const after = moves.find((m) => m.start >= q.end && moveIndex(m) - at <= 2 && sameClause(q.end, m.start));
+    const move = before[before.length - 1] ?? after;
+    const word = prev >= 0 ? tokens[prev].norm : "";
+    const direction =
+      q.sign ??
+      (word === "up" ? 1 : word === "down" ? -1 : undefined) ??
+      (move ? (move.direction === "up" ? 1 : -1) : undefined);
+    if (direction === undefined) return [];
+
+    // Transitive verbs move their object ("hikes rates by 25bps"); others their
+    // subject. After a transitive verb, shares named past the number are what
+    // was sold or bought ("raises $2bn in share sale"), not a price move.
+    const anchor = move ? moveIndex(move) : at;
+    const subject =
+      (move?.transitive ? subjectNear(tokens, anchor + 1, at) : subjectNear(tokens, anchor - 2, anchor)) ||
+      subjectNear(tokens, at + 1, at + 4, move?.transitive ? ["stock price"] : []);
+
+    const label = formatFact(q.unit, q.value, direction, q.currency);
+    return [
+      {
+        unit: q.unit,
+        value: q.value,
+        direction,
+        subject,
+        label: subject ? `${label} ${subject}` : label,
+        strength: strengthOf(q.unit, q.value),
+      },
+    ];
+  });
+}
+
+/**
+ * Blends tone with the largest reported move: half the polarity plus half
+ * the move's signed strength. Headlines without numbers keep their polarity,
+ * so "crashes 15%" now outranks "slips 0.5%".
+ */
+export const impactScore = (polarity: number, facts: MagnitudeFact[]) => {
+  if (facts.length === 0) return polarity;
+  const largest = facts.reduce((a, b) => (b.strength > a.strength ? b : a));
+  return 0.5 * polarity + 0.5 * largest.direction * largest.strength;
+};
+
+export const annotateMagnitudes = (results: AnalysisResult[]): AnalysisResult[] =>
+  results.map((r) => {
+    const facts = extractMagnitudes(r.headline);
+    return { ...r, facts, impact: impactScore(r.polarity, facts) };
+  });
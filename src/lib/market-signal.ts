@@ -0,0 +1,191 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import type { SentimentLabel } from "@/lib/api";
+import { findMoves } from "@/lib/direction";
+import {
+  classifyPolarity,
+  DEFAULT_NEUTRAL_BAND,
+  normalizeText,
+  type NeutralBand,
+} from "@/lib/sentiment-engine";
+import type { SymbolEntry, SymbolTable } from "@/lib/symbols";
+import { escapeRegExp } from "@/lib/utils";
+
+/** Which way a headline points for the chosen instrument, independent of its tone. */
+export type MarketSignal = "bullish" | "bearish" | "none";
+
+export const MARKET_SIGNALS: MarketSignal[] = ["bullish", "bearish", "none"];
+
+export interface SignalDriver {
+  terms: string[];
+  /** +1 when the driver going up is good for the instrument, −1 when it is bad. */
+  sign: 1 | -1;
+}
+
+export interface Instrument {
+  id: string;
+  label: string;
+  /** Words that name the instrument itself. */
+  terms: string[];
+  drivers: SignalDriver[];
+  /** Set for companies from the symbol table, whose per-entity sentiment is used. */
+  symbol?: string;
+}
+
+export const DEFAULT_INSTRUMENT = "market";
+
+const RATES = ["rate", "interest rate", "yield", "Treasury yield", "bond yield"];
+
+// Lowercase terms match any case and a plural "s"; capitalized ones are names
+// and match as written.
+export const INSTRUMENT_PRESETS: Instrument[] = [
+  {
+    id: DEFAULT_INSTRUMENT,
+    label: "Stock market",
+    terms: ["stocks", "equities", "Wall Street", "S&P 500", "Dow", "Nasdaq", "market"],
+    drivers: [
+      { terms: [...RATES, "inflation", "CPI"], sign: -1 },
+      { terms: ["earnings", "profit", "jobs", "payrolls", "GDP"], sign: 1 },
+    ],
+  },
+  {
+    id: "airlines",
+    label: "Airlines",
+    terms: ["airline", "carrier", "Delta", "United Airlines", "American Airlines", "Southwest", "Ryanair"],
+    drivers: [
+      { terms: ["oil", "crude", "jet fuel", "fuel"], sign: -1 },
+      { terms: ["travel demand", "bookings", "passenger"], sign: 1 },
+    ],
+  },
+  {
+    id: "oil",
+    label: "Crude oil",
+    terms: ["oil", "crude", "Brent", "WTI"],
+    drivers: [
+      { terms: ["output", "production", "supply", "inventories", "stockpile"], sign: -1 },
+      { terms: ["demand"], sign: 1 },
+    ],
+  },
+  {
+    id: "gold",
+    label: "Gold",
+    terms: ["gold", "bullion"],
+    drivers: [{ terms: [...RATES, "dollar", "greenback"], sign: -1 }],
+  },
+  {
+    id: "usd",
+    label: "US dollar",
+    terms: ["dollar", "greenback", "USD"],
+    drivers: [{ terms: RATES, sign: 1 }],
+  },
+  {
+    id: "bonds",
+    label: "Treasuries",
+    terms: ["Treasuries", "bond", "Treasury"],
+    // Prices move against yields.
+    drivers: [{ terms: [...RATES, "inflation", "CPI"], sign: -1 }],
+  },
+];
+
+export const companyInstrument = (entry: SymbolEntry): Instrument => ({
+  id: `symbol:${entry.symbol}`,
+  label: `${entry.name} (${entry.symbol})`,
+  terms: [entry.name, ...entry.aliases, entry.symbol, `$${entry.symbol}`],
+  drivers: [],
+  symbol: entry.symbol,
+});
+
+export const instrumentOptions = (table: SymbolTable): Instrument[] => [
+  ...INSTRUMENT_PRESETS,
+  ...table.map(companyInstrument),
+];
+
+/** Falls back to the stock market when a saved company was removed from the table. */
+export const resolveInstrument = (id: string, table: SymbolTable): Instrument =>
+  instrumentOptions(table).find((i) => i.id === id) ?? INSTRUMENT_PRESETS[0];
+
+const termPattern = (term: string) =>
+  /[A-Z]/.test(term)
+    ? new RegExp(`(?<![\\w$])${escapeRegExp(term)}(?:'s)?(?!\\w)`, "g")
+    : new RegExp(`(?<![\\w$])${escapeRegExp(term)}s?(?!\\w)`, "gi");
+
+interface TermMention {
+  /** +1 for the instrument itself or a driver that helps it, −1 for one that hurts it. */
+  sign: 1 | -1;
+  instrument: boolean;
+  start: number;
+  end: number;
+}
+
+const findTerms = (text: string, instrument: Instrument): TermMention[] => {
+  const groups = [
+    { terms: instrument.terms, sign: 1 as const, instrument: true },
+    ...instrument.drivers.map((d) => ({ ...d, instrument: false })),
+  ];
+  const found = groups.flatMap(({ terms, sign, instrument }) =>
+    terms.flatMap((term) =>
+      [...text.matchAll(termPattern(term))].map((m) => ({
+        sign,
+        instrument,
+        start: m.index,
+        end: m.index + m[0].length,
+      }))
+    )
+  );
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  return found.filter((m, idx) => found.slice(0, idx).every((p) => p.end <= m.start));
+};
+
+const fromScore = (score: number): MarketSignal => (score > 0 ? "bullish" : score < 0 ? "bearish" : "none");
+
+const fromTone = (tone: SentimentLabel): MarketSignal =>
+  tone === "positive" ? "bullish" : tone === "negative" ? "bearish" : "none";
+
+/**
+ * Reads a headline's market direction for `instrument`. Each up/down word
+ * moves the instrument or driver it refers to (the one before it, or the one
+ * after a transitive verb like "cuts"), and a driver's move counts with its
+ * sign: "Oil prices plunge" is bearish in tone but bullish for airlines.
+ * Headlines about the instrument with no such word fall back to their tone;
+ * headlines that mention neither the instrument nor a driver give "none".
+ */
+export function marketSignal(
+  result: AnalysisResult,
+  instrument: Instrument,
+  band: NeutralBand = DEFAULT_NEUTRAL_BAND
+): MarketSignal {
+  if (instrument.symbol) {
+    const entity = result.entities?.find((e) => e.symbol === instrument.symbol);
+    return entity ? fromTone(entity.sentiment) : "none";
+  }
+
+  const text = normalizeText(result.headline);
+  const mentions = findTerms(text, instrument);
+  if (mentions.length === 0) return "none";
+
+  let score = 0;
+  let previousEnd = 0;
+  for (const move of findMoves(text)) {
+    const before = mentions.filter((m) => m.end <= move.start && m.start >= previousEnd);
+    const after = mentions.find((m) => m.start >= move.end);
+    const target = move.transitive ? (after ?? before[before.length - 1]) : (before[before.length - 1] ?? after);
+    previousEnd = move.end;
+    if (target) score += (move.direction === "up" ? 1 : -1) * target.sign;
+  }
+  if (score !== 0) return fromScore(score);
+
+  return mentions.some((m) => m.instrument) ? fromTone(classifyPolarity(result.polarity, band)) : "none";
+}
+
+export const annotateSignals = (
+  results: AnalysisResult[],
+  instrument: Instrument,
+  band: NeutralBand = DEFAULT_NEUTRAL_BAND
+): AnalysisResult[] => results.map((r) => ({ ...r, signal: marketSignal(r, instrument, band) }));
+
+export type SignalSummary = Record<MarketSignal, number>;
+
+export const summarizeSignals = (results: AnalysisResult[]): SignalSummary => ({
+  bullish: results.filter((r) => r.signal === "bullish").length,
+  bearish: results.filter((r) => r.signal === "bearish").length,
+  none: results.filter((r) => (r.signal ?? "none") === "none").length,
+});
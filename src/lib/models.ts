@@ -0,0 +1,35 @@
+import type { ResultModel, SentimentModel } from "@/lib/api";
+
+export interface ModelInfo {
+  model: SentimentModel;
+  label: string;
+  description: string;
+}
+
+export const SENTIMENT_MODELS: ModelInfo[] = [
+  {
+    model: "vader",
+    label: "VADER",
+    description: "Fast general-purpose lexicon, scored by the backend.",
+  },
+  {
+    model: "finbert",
+    label: "FinBERT",
+    description: "Transformer trained on financial news. Slower; the backend must have it installed.",
+  },
+  {
+    model: "rules",
+    label: "Rule engine",
+    description: "Financial lexicon with negation and contrast rules, scored in your browser.",
+  },
+];
+
+const OTHER_LABELS: Record<Exclude<ResultModel, SentimentModel>, string> = {
+  mixed: "Mixed models",
+  unknown: "Unknown model",
+};
+
+export const modelLabel = (model: ResultModel) =>
+  SENTIMENT_MODELS.find((m) => m.model === model)?.label ??
+  OTHER_LABELS[model as keyof typeof OTHER_LABELS] ??
+  model;
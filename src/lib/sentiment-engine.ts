@@ -0,0 +1,231 @@
+import type { SentimentLabel } from "@/lib/api";
+import { ABBREVIATIONS, INTENSIFIERS, LEXICON, NEGATIONS, PHRASES } from "@/lib/sentiment-lexicon";
+
+export const NEUTRAL_THRESHOLD = 0.05;
+
+const NEGATION_SCALAR = -0.74;
+const BUT_BEFORE_SCALAR = 0.5;
+const BUT_AFTER_SCALAR = 1.5;
+const NEGATION_WINDOW = 3;
+const INTENSIFIER_WINDOW = 2;
+const NORMALIZATION_ALPHA = 15;
+const MAX_PHRASE_LENGTH = Math.max(...Object.keys(PHRASES).map((p) => p.split(" ").length));
+
+export interface Token {
+  /** Normalized form used for lookups. */
+  norm: string;
+  /** Character span of the token in the original text. */
+  start: number;
+  end: number;
+}
+
+export type ContributionRule = "lexicon" | "phrase";
+export type ContributionModifier = "negated" | "intensified" | "dampened" | "contrast";
+
+export interface TokenContribution {
+  /** The text as it appears in the input, e.g. "crashes" or "beats estimates". */
+  text: string;
+  start: number;
+  end: number;
+  /** Valence after all modifiers were applied. */
+  valence: number;
+  /** Lexicon valence before modifiers. */
+  baseValence: number;
+  rule: ContributionRule;
+  modifiers: ContributionModifier[];
+}
+
+export interface SentimentBreakdown {
+  pos: number;
+  neu: number;
+  neg: number;
+}
+
+export interface EngineResult {
+  sentiment: SentimentLabel;
+  compound: number;
+  breakdown: SentimentBreakdown;
+  contributions: TokenContribution[];
+}
+
+const has = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key);
+
+// Keeps $, %, and alphanumerics like Q2/EPS/FY24 intact; everything else is
+// treated as a separator.
+const TOKEN_PATTERN = /\$?\d+(?:[.,]\d+)*(?:%|bps|bp|bn|mn|[kmbx])?|\$[a-z]+|[a-z0-9]+(?:[&'][a-z0-9]+)*|%/gi;
+
+/** Whether a negation ("not", "fails", "won't"…) sits in the few tokens before `index`. */
+export const isNegatedAt = (tokens: Token[], index: number) =>
+  tokens.slice(Math.max(0, index - NEGATION_WINDOW), index).some((t) => NEGATIONS.has(t.norm));
+
+export function normalizeText(text: string): string {
+  return text
+    .replace(/[‘’‛′]/g, "'")
+    .replace(/[“”″]/g, '"')
+    .replace(/[‐-―]/g, "-");
+}
+
+export function tokenize(text: string): Token[] {
+  // Normalization is length-preserving so token spans index into `text`.
+  const normalized = normalizeText(text);
+  const tokens: Token[] = [];
+  for (const match of normalized.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const word = match[0].toLowerCase();
+    const expansion = has(ABBREVIATIONS, word) ? ABBREVIATIONS[word] : [word];
+    for (const norm of expansion) tokens.push({ norm, start, end });
+  }
+  return tokens;
+}
+
+function lookupWord(word: string): number | undefined {
+  const candidates = [word];
+  if (word.endsWith("ies")) candidates.push(`${word.slice(0, -3)}y`);
+  if (word.endsWith("es")) candidates.push(word.slice(0, -2));
+  if (word.endsWith("s")) candidates.push(word.slice(0, -1));
+  if (word.endsWith("ed")) candidates.push(word.slice(0, -2), word.slice(0, -1));
+  if (word.endsWith("ing")) candidates.push(word.slice(0, -3), `${word.slice(0, -3)}e`);
+  if (/(.)\1(ed|ing)$/.test(word)) candidates.push(word.replace(/(.)\1(ed|ing)$/, "$1"));
+  if (word.endsWith("ied")) candidates.push(`${word.slice(0, -3)}y`);
+
+  for (const c of candidates) {
+    if (has(LEXICON, c)) return LEXICON[c];
+  }
+  return undefined;
+}
+
+interface Match {
+  startToken: number;
+  endToken: number;
+  valence: number;
+  rule: ContributionRule;
+}
+
+function matchSentimentTerms(tokens: Token[]): Match[] {
+  const matches: Match[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    let matched: Match | null = null;
+    for (let len = Math.min(MAX_PHRASE_LENGTH, tokens.length - i); len >= 2; len--) {
+      const phrase = tokens
+        .slice(i, i + len)
+        .map((t) => t.norm)
+        .join(" ");
+      if (has(PHRASES, phrase)) {
+        matched = { startToken: i, endToken: i + len, valence: PHRASES[phrase], rule: "phrase" };
+        break;
+      }
+    }
+    if (!matched) {
+      const valence = lookupWord(tokens[i].norm);
+      if (valence !== undefined) {
+        matched = { startToken: i, endToken: i + 1, valence, rule: "lexicon" };
+      }
+    }
+    if (matched) {
+      matches.push(matched);
+      i = matched.endToken;
+    } else {
+      i += 1;
+    }
+  }
+  return matches;
+}
+
+function applyModifiers(tokens: Token[], match: Match, butIndex: number) {
+  let valence = match.valence;
+  const modifiers: ContributionModifier[] = [];
+
+  // Intensifiers apply to the word right after them ("sharply lower") and to
+  // the word right before them ("falls sharply").
+  const windowStart = Math.max(0, match.startToken - INTENSIFIER_WINDOW);
+  const around = [
+    ...tokens.slice(windowStart, match.startToken),
+    ...tokens.slice(match.endToken, match.endToken + 1),
+  ];
+  for (const t of around) {
+    if (!has(INTENSIFIERS, t.norm)) continue;
+    const scalar = INTENSIFIERS[t.norm];
+    valence += valence > 0 ? scalar : -scalar;
+    modifiers.push(scalar > 0 ? "intensified" : "dampened");
+  }
+
+  if (isNegatedAt(tokens, match.startToken)) {
+    valence *= NEGATION_SCALAR;
+    modifiers.push("negated");
+  }
+
+  // "X but Y": what follows the contrast dominates what precedes it.
+  if (butIndex >= 0) {
+    valence *= match.startToken < butIndex ? BUT_BEFORE_SCALAR : BUT_AFTER_SCALAR;
+    modifiers.push("contrast");
+  }
+
+  return { valence, modifiers };
+}
+
+/** Compound scores strictly inside (lower, upper) are neutral. */
+export interface NeutralBand {
+  lower: number;
+  upper: number;
+}
+
+export const DEFAULT_NEUTRAL_BAND: NeutralBand = { lower: -NEUTRAL_THRESHOLD, upper: NEUTRAL_THRESHOLD };
+
+export function classifyPolarity(compound: number, band: NeutralBand): SentimentLabel {
+  if (compound > band.upper) return "positive";
+  if (compound < band.lower) return "negative";
+  return "neutral";
+}
+
+export function classifyCompound(compound: number, threshold = NEUTRAL_THRESHOLD): SentimentLabel {
+  return classifyPolarity(compound, { lower: -threshold, upper: threshold });
+}
+
+/**
+ * Scores a headline with the in-browser rule engine. Mirrors the shape of
+ * VADER's output (compound in [-1, 1] plus a pos/neu/neg breakdown) so the
+ * result can stand in for the backend's when it is unreachable.
+ */
+export function analyzeText(text: string): EngineResult {
+  const tokens = tokenize(text);
+  const butIndex = tokens.findIndex((t) => t.norm === "but" || t.norm === "however");
+  const matches = matchSentimentTerms(tokens);
+
+  const contributions: TokenContribution[] = matches.map((m) => {
+    const { valence, modifiers } = applyModifiers(tokens, m, butIndex);
+    const start = tokens[m.startToken].start;
+    const end = tokens[m.endToken - 1].end;
+    return {
+      text: text.slice(start, end),
+      start,
+      end,
+      valence,
+      baseValence: m.valence,
+      rule: m.rule,
+      modifiers,
+    };
+  });
+
+  const sum = contributions.reduce((acc, c) => acc + c.valence, 0);
+  const compound = sum === 0 ? 0 : Math.max(-1, Math.min(1, sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA)));
+
+  const posSum = contributions.filter((c) => c.valence > 0).reduce((acc, c) => acc + c.valence + 1, 0);
+  const negSum = contributions.filter((c) => c.valence < 0).reduce((acc, c) => acc + c.valence - 1, 0);
+  const sentimentTokens = matches.reduce((acc, m) => acc + (m.endToken - m.startToken), 0);
+  const neuCount = Math.max(0, tokens.length - sentimentTokens);
+  const total = posSum + Math.abs(negSum) + neuCount;
+
+  const breakdown: SentimentBreakdown =
+    total === 0
+      ? { pos: 0, neu: 1, neg: 0 }
+      : { pos: posSum / total, neu: neuCount / total, neg: Math.abs(negSum) / total };
+
+  return {
+    sentiment: classifyCompound(compound),
+    compound,
+    breakdown,
+    contributions,
+  };
+}
@@ -0,0 +1,267 @@
+// Valences follow the VADER convention: roughly -4 (most negative) to +4
+// (most positive). Entries are base forms; the engine also tries common
+// inflections (-s, -es, -ed, -ing) before giving up on a word.
+
+export const LEXICON: Record<string, number> = {
+  // price action, up
+  surge: 2.6,
+  soar: 2.8,
+  skyrocket: 3.0,
+  jump: 2.0,
+  rally: 2.2,
+  gain: 1.8,
+  rise: 1.4,
+  climb: 1.4,
+  rebound: 1.8,
+  recover: 1.8,
+  recovery: 1.8,
+  advance: 1.3,
+  spike: 1.2,
+  high: 0.8,
+  up: 0.6,
+
+  // price action, down
+  crash: -3.2,
+  plunge: -3.0,
+  plummet: -3.2,
+  tumble: -2.6,
+  slump: -2.5,
+  sink: -2.0,
+  tank: -2.6,
+  fall: -1.5,
+  drop: -1.5,
+  decline: -1.5,
+  slide: -1.5,
+  slip: -1.0,
+  dip: -0.8,
+  sag: -1.2,
+  retreat: -1.0,
+  low: -0.8,
+  down: -0.6,
+
+  // fundamentals, positive
+  beat: 2.0,
+  outperform: 2.0,
+  upgrade: 2.2,
+  profit: 1.5,
+  profitable: 1.8,
+  growth: 1.6,
+  grow: 1.4,
+  boost: 1.8,
+  strong: 1.8,
+  robust: 1.8,
+  bullish: 2.5,
+  optimism: 2.0,
+  optimistic: 2.0,
+  confidence: 1.5,
+  buyback: 1.2,
+  dividend: 0.8,
+  expand: 1.2,
+  expansion: 1.2,
+  approve: 1.2,
+  approval: 1.2,
+  win: 1.8,
+  breakthrough: 2.2,
+  upbeat: 1.8,
+  exceed: 1.8,
+  surpass: 1.8,
+  success: 2.0,
+  successful: 2.0,
+  improve: 1.5,
+  improvement: 1.5,
+  positive: 1.5,
+  momentum: 1.0,
+  stimulus: 1.0,
+  innovation: 1.2,
+  deal: 0.6,
+
+  // fundamentals, negative
+  miss: -2.0,
+  downgrade: -2.2,
+  loss: -2.0,
+  lose: -1.8,
+  layoff: -2.2,
+  bankrupt: -3.5,
+  bankruptcy: -3.5,
+  insolvency: -3.2,
+  default: -2.8,
+  fraud: -3.2,
+  scandal: -3.0,
+  lawsuit: -2.0,
+  sue: -1.8,
+  probe: -1.6,
+  investigation: -1.6,
+  recession: -2.8,
+  inflation: -1.2,
+  fear: -2.0,
+  worry: -1.8,
+  concern: -1.5,
+  risk: -1.2,
+  warn: -2.0,
+  warning: -2.0,
+  weak: -1.8,
+  weakness: -1.8,
+  bearish: -2.5,
+  pessimism: -2.0,
+  volatile: -1.2,
+  volatility: -1.2,
+  slowdown: -1.8,
+  slow: -1.0,
+  debt: -1.0,
+  shortfall: -2.0,
+  halt: -1.8,
+  penalty: -1.8,
+  recall: -1.6,
+  strike: -1.5,
+  crisis: -3.0,
+  collapse: -3.2,
+  turmoil: -2.5,
+  uncertainty: -1.5,
+  underperform: -2.0,
+  disappointing: -2.2,
+  disappoint: -2.0,
+  cut: -1.2,
+  delay: -1.2,
+  struggle: -1.8,
+  sanction: -1.6,
+  tariff: -1.0,
+  shutdown: -2.0,
+  negative: -1.5,
+  panic: -2.8,
+};
+
+// Multi-word patterns, matched longest-first over the normalized tokens.
+// They take precedence over the single words they contain ("rate cut" is
+// good news even though "cut" on its own is not).
+export const PHRASES: Record<string, number> = {
+  "beat expectations": 2.5,
+  "beats expectations": 2.5,
+  "beat estimates": 2.5,
+  "beats estimates": 2.5,
+  "better than expected": 2.2,
+  "worse than expected": -2.2,
+  "miss expectations": -2.5,
+  "misses expectations": -2.5,
+  "miss estimates": -2.5,
+  "misses estimates": -2.5,
+  "all time high": 2.5,
+  "record high": 2.5,
+  "record low": -2.5,
+  "record profit": 2.8,
+  "record loss": -2.8,
+  "profit warning": -2.8,
+  "rate cut": 1.5,
+  "rate cuts": 1.5,
+  "cuts rates": 1.5,
+  "cut rates": 1.5,
+  "rate hike": -1.2,
+  "rate hikes": -1.2,
+  "hikes rates": -1.2,
+  "raise guidance": 2.2,
+  "raises guidance": 2.2,
+  "cut guidance": -2.2,
+  "cuts guidance": -2.2,
+  "lower guidance": -2.2,
+  "lowers guidance": -2.2,
+  "job cuts": -2.2,
+  "cut jobs": -2.2,
+  "cuts jobs": -2.2,
+  "sell off": -2.2,
+  "selloff": -2.2,
+  "bear market": -2.5,
+  "bull market": 2.5,
+  "strong buy": 2.5,
+  "short squeeze": 1.0,
+  "in line": 0.2,
+  "files for bankruptcy": -3.6,
+  "price target raised": 2.0,
+  "price target cut": -2.0,
+  "going concern": -2.8,
+  "margin call": -2.6,
+};
+
+// Abbreviations are expanded before lexicon lookup so the patterns above
+// can match them; the expansions keep the source span of the original token.
+export const ABBREVIATIONS: Record<string, string[]> = {
+  yoy: ["year", "over", "year"],
+  qoq: ["quarter", "over", "quarter"],
+  mom: ["month", "over", "month"],
+  ath: ["all", "time", "high"],
+  atl: ["all", "time", "low"],
+  bn: ["billion"],
+  mn: ["million"],
+  mln: ["million"],
+  govt: ["government"],
+  mgmt: ["management"],
+  rev: ["revenue"],
+  est: ["estimates"],
+  ests: ["estimates"],
+  yr: ["year"],
+  pt: ["price", "target"],
+  "m&a": ["merger"],
+  ipo: ["ipo"],
+  upgr: ["upgrade"],
+  downgr: ["downgrade"],
+  q1: ["q1"],
+  q2: ["q2"],
+  q3: ["q3"],
+  q4: ["q4"],
+  eps: ["eps"],
+};
+
+export const NEGATIONS = new Set([
+  "not",
+  "no",
+  "never",
+  "none",
+  "nor",
+  "neither",
+  "without",
+  "hardly",
+  "isn't",
+  "aren't",
+  "wasn't",
+  "weren't",
+  "doesn't",
+  "don't",
+  "didn't",
+  "won't",
+  "can't",
+  "cannot",
+  "couldn't",
+  "shouldn't",
+  "wouldn't",
+  "fails",
+  "fail",
+  "failed",
+]);
+
+// Positive entries strengthen the next sentiment word, negative ones soften it.
+export const INTENSIFIERS: Record<string, number> = {
+  very: 0.293,
+  sharply: 0.293,
+  sharp: 0.293,
+  steep: 0.293,
+  steeply: 0.293,
+  significantly: 0.293,
+  significant: 0.293,
+  extremely: 0.293,
+  massively: 0.293,
+  massive: 0.293,
+  strongly: 0.293,
+  deeply: 0.293,
+  hugely: 0.293,
+  huge: 0.293,
+  heavily: 0.293,
+  heavy: 0.293,
+  biggest: 0.293,
+  major: 0.2,
+  slightly: -0.293,
+  marginally: -0.293,
+  modestly: -0.293,
+  modest: -0.293,
+  somewhat: -0.293,
+  mildly: -0.293,
+  mild: -0.293,
+  slight: -0.293,
+};
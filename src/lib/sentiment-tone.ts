@@ -0,0 +1,33 @@
+import type { SentimentLabel } from "@/lib/api";
+
+// Tailwind classes for each sentiment, written out in full so the scanner
+// keeps them. Components colour sentiment from here rather than their own maps.
+export const SENTIMENT_TONE: Record<
+  SentimentLabel,
+  { text: string; dot: string; solid: string; tint: string; border: string; accent: string }
+> = {
+  positive: {
+    text: "text-positive",
+    dot: "bg-positive",
+    solid: "bg-positive text-positive-foreground",
+    tint: "bg-positive/15",
+    border: "border-positive",
+    accent: "border-l-positive",
+  },
+  negative: {
+    text: "text-negative",
+    dot: "bg-negative",
+    solid: "bg-negative text-negative-foreground",
+    tint: "bg-negative/15",
+    border: "border-negative",
+    accent: "border-l-negative",
+  },
+  neutral: {
+    text: "text-neutral",
+    dot: "bg-neutral",
+    solid: "bg-neutral text-neutral-foreground",
+    tint: "bg-neutral/15",
+    border: "border-neutral",
+    accent: "border-l-neutral",
+  },
+};
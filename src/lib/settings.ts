@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+import { DEFAULT_MODEL, sentimentModelSchema } from "@/lib/api";
+import { DEFAULT_INSTRUMENT } from "@/lib/market-signal";
+import { DEFAULT_NEUTRAL_BAND } from "@/lib/sentiment-engine";
+
+export const SETTINGS_STORAGE_KEY = "financial-sentiment:settings";
+
+/** How far from zero the neutral band edges can be dragged. */
+export const NEUTRAL_BAND_LIMIT = 0.5;
+
+const neutralBandSchema = z
+  .object({
+    lower: z.number().min(-NEUTRAL_BAND_LIMIT).max(0),
+    upper: z.number().min(0).max(NEUTRAL_BAND_LIMIT),
+  })
+  .refine((band) => band.lower <= band.upper);
+
+export const settingsSchema = z.object({
+  neutralBand: neutralBandSchema,
+  // Optional so settings saved before model selection still parse.
+  model: sentimentModelSchema.default(DEFAULT_MODEL),
+  /** Instrument id the market signal is read against; see `resolveInstrument`. */
+  instrument: z.string().default(DEFAULT_INSTRUMENT),
+});
+
+export type Settings = z.infer<typeof settingsSchema>;
+
+export const DEFAULT_SETTINGS: Settings = {
+  neutralBand: DEFAULT_NEUTRAL_BAND,
+  model: DEFAULT_MODEL,
+  instrument: DEFAULT_INSTRUMENT,
+};
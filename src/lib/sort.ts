@@ -0,0 +1,85 @@
+import type { AnalysisResult } from "@/lib/analysis";
+
+export type SortKey = "published" | "polarity" | "strength" | "impact" | "source" | "headline";
+export type SortDirection = "asc" | "desc";
+
+export interface SortState {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+export const SORT_OPTIONS: { key: SortKey; label: string; defaultDirection: SortDirection }[] = [
+  { key: "published", label: "Published", defaultDirection: "desc" },
+  { key: "polarity", label: "Polarity", defaultDirection: "desc" },
+  { key: "strength", label: "Strength", defaultDirection: "desc" },
+  { key: "impact", label: "Impact", defaultDirection: "desc" },
+  { key: "source", label: "Source", defaultDirection: "asc" },
+  { key: "headline", label: "Headline", defaultDirection: "asc" },
+];
+
+export const DEFAULT_SORT: SortState = { key: "published", direction: "desc" };
+
+const SORT_KEYS = SORT_OPTIONS.map((o) => o.key);
+
+type Comparator = (a: AnalysisResult, b: AnalysisResult) => number;
+
+const textCompare = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: "base" });
+
+// Ascending comparators; descending order negates them.
+const COMPARATORS: Record<SortKey, Comparator> = {
+  published: (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  polarity: (a, b) => a.polarity - b.polarity,
+  strength: (a, b) => Math.abs(a.polarity) - Math.abs(b.polarity),
+  // Results scored before magnitudes were annotated rank by polarity.
+  impact: (a, b) => (a.impact ?? a.polarity) - (b.impact ?? b.polarity),
+  source: (a, b) => textCompare(a.source ?? "", b.source ?? ""),
+  headline: (a, b) => textCompare(a.headline, b.headline),
+};
+
+// Ties on the primary key fall back to newest first, then headline A–Z.
+// Array.prototype.sort is stable, so full ties keep backend order.
+const TIE_BREAKERS: Comparator[] = [
+  (a, b) => -COMPARATORS.published(a, b),
+  COMPARATORS.headline,
+];
+
+export const sortResults = (results: AnalysisResult[], sort: SortState): AnalysisResult[] => {
+  const primary = COMPARATORS[sort.key];
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return [...results].sort((a, b) => {
+    const first = sign * primary(a, b);
+    if (first !== 0) return first;
+    for (const compare of TIE_BREAKERS) {
+      const next = compare(a, b);
+      if (next !== 0) return next;
+    }
+    return 0;
+  });
+};
+
+/** Clicking the active key flips its direction; a new key starts in its natural order. */
+export const nextSort = (current: SortState, key: SortKey): SortState => {
+  if (current.key === key) {
+    return { key, direction: current.direction === "asc" ? "desc" : "asc" };
+  }
+  const option = SORT_OPTIONS.find((o) => o.key === key);
+  return { key, direction: option?.defaultDirection ?? "desc" };
+};
+
+export const parseSort = (params: URLSearchParams): SortState => {
+  const key = params.get("sort") as SortKey | null;
+  const dir = params.get("dir");
+  if (!key || !SORT_KEYS.includes(key)) return DEFAULT_SORT;
+  return { key, direction: dir === "asc" || dir === "desc" ? dir : DEFAULT_SORT.direction };
+};
+
+export const writeSort = (params: URLSearchParams, sort: SortState) => {
+  if (sort.key === DEFAULT_SORT.key && sort.direction === DEFAULT_SORT.direction) {
+    params.delete("sort");
+    params.delete("dir");
+  } else {
+    params.set("sort", sort.key);
+    params.set("dir", sort.direction);
+  }
+  return params;
+};
@@ -0,0 +1,44 @@
+import type { AnalysisResult } from "@/lib/analysis";
+import type { SentimentSummary } from "@/lib/api";
+import { averagePolarity, summarizeResults } from "@/lib/stats";
+
+/** Label used for results whose publisher could not be determined. */
+export const UNKNOWN_SOURCE = "Unknown";
+
+export const sourceLabel = (r: AnalysisResult) => r.source || UNKNOWN_SOURCE;
+
+export interface SourceStats {
+  source: string;
+  count: number;
+  summary: SentimentSummary;
+  average: number;
+}
+
+/** Per-publisher counts and average polarity, busiest publishers first. */
+export const sourceBreakdown = (results: AnalysisResult[]): SourceStats[] => {
+  const groups = new Map<string, AnalysisResult[]>();
+  for (const r of results) {
+    const key = sourceLabel(r);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return [...groups.entries()]
+    .map(([source, items]) => ({
+      source,
+      count: items.length,
+      summary: summarizeResults(items),
+      average: averagePolarity(items),
+    }))
+    .sort((a, b) => b.count - a.count || a.source.localeCompare(b.source));
+};
+
+// Excluded publishers are stored as repeated `exclude` params.
+export const parseExcludedSources = (params: URLSearchParams) => params.getAll("exclude");
+
+export const writeExcludedSources = (params: URLSearchParams, sources: string[]) => {
+  params.delete("exclude");
+  [...new Set(sources)].forEach((s) => params.append("exclude", s));
+  return params;
+};
+
+export const filterBySource = (results: AnalysisResult[], excluded: string[]) =>
+  excluded.length === 0 ? results : results.filter((r) => !excluded.includes(sourceLabel(r)));
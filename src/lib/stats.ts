@@ -0,0 +1,49 @@
+import type { SentimentLabel, SentimentSummary } from "@/lib/api";
+import type { AnalysisResult } from "@/lib/analysis";
+import { classifyPolarity, DEFAULT_NEUTRAL_BAND, type NeutralBand } from "@/lib/sentiment-engine";
+
+export const SENTIMENTS: SentimentLabel[] = ["positive", "negative", "neutral"];
+
+export const summarizeResults = (results: AnalysisResult[]): SentimentSummary => {
+  const summary: SentimentSummary = { positive: 0, negative: 0, neutral: 0 };
+  for (const r of results) summary[r.sentiment ?? "neutral"] += 1;
+  return summary;
+};
+
+export const averagePolarity = (results: AnalysisResult[]) =>
+  results.length ? results.reduce((acc, r) => acc + r.polarity, 0) / results.length : 0;
+
+export interface HistogramBin {
+  /** Bin centre, e.g. -0.4. */
+  center: number;
+  label: string;
+  count: number;
+  sentiment: SentimentLabel;
+}
+
+/**
+ * Buckets polarity scores into bins of `width` centred on multiples of the
+ * width, so there is always a bin centred on 0 for neutral headlines.
+ */
+export const polarityHistogram = (
+  results: AnalysisResult[],
+  width = 0.2,
+  band: NeutralBand = DEFAULT_NEUTRAL_BAND
+): HistogramBin[] => {
+  const half = Math.round(1 / width);
+  const bins: HistogramBin[] = [];
+  for (let i = -half; i <= half; i++) {
+    const center = Number((i * width).toFixed(2));
+    bins.push({
+      center,
+      label: center.toFixed(1),
+      count: 0,
+      sentiment: classifyPolarity(center, band),
+    });
+  }
+  for (const r of results) {
+    const idx = Math.max(-half, Math.min(half, Math.round(r.polarity / width))) + half;
+    bins[idx].count += 1;
+  }
+  return bins;
+};
@@ -0,0 +1,115 @@
+import { z } from "zod";
+
+import { parseCsv, toCsv } from "@/lib/csv";
+
+export const SYMBOLS_STORAGE_KEY = "financial-sentiment:symbols";
+
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9]{0,5}(?:\.[A-Z])?$/;
+
+const symbolEntrySchema = z.object({
+  symbol: z.string().regex(SYMBOL_PATTERN),
+  name: z.string().min(1),
+  /** Other names the company appears under in headlines, e.g. "Alphabet" for GOOGL. */
+  aliases: z.array(z.string().min(1)),
+});
+
+export const symbolTableSchema = z.array(symbolEntrySchema);
+
+export type SymbolEntry = z.infer<typeof symbolEntrySchema>;
+export type SymbolTable = z.infer<typeof symbolTableSchema>;
+
+const entry = (symbol: string, name: string, ...aliases: string[]): SymbolEntry => ({
+  symbol,
+  name,
+  aliases,
+});
+
+// Large caps that dominate financial headlines. Users can edit or extend the
+// table in the app; this is only the starting point.
+export const DEFAULT_SYMBOL_TABLE: SymbolTable = [
+  entry("AAPL", "Apple"),
+  entry("MSFT", "Microsoft"),
+  entry("GOOGL", "Alphabet", "Google"),
+  entry("AMZN", "Amazon"),
+  entry("META", "Meta", "Meta Platforms", "Facebook"),
+  entry("NVDA", "Nvidia", "NVIDIA"),
+  entry("TSLA", "Tesla"),
+  entry("NFLX", "Netflix"),
+  entry("AMD", "AMD", "Advanced Micro Devices"),
+  entry("INTC", "Intel"),
+  entry("ORCL", "Oracle"),
+  entry("CRM", "Salesforce"),
+  entry("ADBE", "Adobe"),
+  entry("IBM", "IBM"),
+  entry("CSCO", "Cisco"),
+  entry("QCOM", "Qualcomm"),
+  entry("AVGO", "Broadcom"),
+  entry("TSM", "TSMC", "Taiwan Semiconductor"),
+  entry("BABA", "Alibaba"),
+  entry("UBER", "Uber"),
+  entry("F", "Ford", "Ford Motor"),
+  entry("GM", "General Motors", "GM"),
+  entry("TM", "Toyota"),
+  entry("BA", "Boeing"),
+  entry("JPM", "JPMorgan", "JPMorgan Chase", "JP Morgan"),
+  entry("GS", "Goldman Sachs", "Goldman"),
+  entry("MS", "Morgan Stanley"),
+  entry("BAC", "Bank of America", "BofA"),
+  entry("WFC", "Wells Fargo"),
+  entry("C", "Citigroup", "Citi"),
+  entry("V", "Visa"),
+  entry("MA", "Mastercard"),
+  entry("PYPL", "PayPal"),
+  entry("BRK.B", "Berkshire Hathaway", "Berkshire"),
+  entry("XOM", "Exxon Mobil", "Exxon", "ExxonMobil"),
+  entry("CVX", "Chevron"),
+  entry("WMT", "Walmart"),
+  entry("COST", "Costco"),
+  entry("KO", "Coca-Cola"),
+  entry("PEP", "PepsiCo", "Pepsi"),
+  entry("MCD", "McDonald's"),
+  entry("NKE", "Nike"),
+  entry("DIS", "Disney", "Walt Disney"),
+  entry("PFE", "Pfizer"),
+  entry("JNJ", "Johnson & Johnson"),
+  entry("LLY", "Eli Lilly", "Lilly"),
+  entry("MRNA", "Moderna"),
+];
+
+/** One company per line: `SYMBOL, Name, Alias, Alias…`, CSV-quoted where needed. */
+export const formatSymbolTable = (table: SymbolTable) =>
+  toCsv(table.map((e) => [e.symbol, e.name, ...e.aliases]));
+
+export interface SymbolTableParse {
+  table: SymbolTable;
+  /** Human-readable problems, one per rejected row. Blank lines are not counted. */
+  errors: string[];
+}
+
+export const parseSymbolTable = (content: string): SymbolTableParse => {
+  const table: SymbolTable = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  parseCsv(content).forEach((cells, idx) => {
+    const [rawSymbol = "", rawName = "", ...rawAliases] = cells.map((c) => c.trim());
+    const row = idx + 1;
+    const symbol = rawSymbol.replace(/^\$/, "").toUpperCase();
+    if (!SYMBOL_PATTERN.test(symbol)) {
+      errors.push(`Row ${row}: "${rawSymbol}" is not a ticker symbol.`);
+      return;
+    }
+    if (!rawName) {
+      errors.push(`Row ${row}: ${symbol} needs a company name.`);
+      return;
+    }
+    if (seen.has(symbol)) {
+      errors.push(`Row ${row}: ${symbol} is listed twice.`);
+      return;
+    }
+    seen.add(symbol);
+    table.push(entry(symbol, rawName, ...rawAliases.filter(Boolean)));
+  });
+
+  return { table, errors };
+};
@@ -0,0 +1,82 @@
+import { startOfDay, startOfHour, startOfWeek } from "date-fns";
+
+import type { AnalysisResult, SentimentType } from "@/lib/analysis";
+
+export type BucketSize = "hour" | "day" | "week";
+
+export const BUCKET_SIZES: BucketSize[] = ["hour", "day", "week"];
+
+/** date-fns patterns for axis ticks at each bucket size. */
+export const BUCKET_TICK_FORMAT: Record<BucketSize, string> = {
+  hour: "MMM d HH:mm",
+  day: "MMM d",
+  week: "'Wk of' MMM d",
+};
+
+/** Number of buckets averaged together for the rolling line. */
+export const ROLLING_WINDOW = 3;
+
+export const bucketStart = (date: Date, size: BucketSize): Date => {
+  switch (size) {
+    case "hour":
+      return startOfHour(date);
+    case "day":
+      return startOfDay(date);
+    case "week":
+      return startOfWeek(date, { weekStartsOn: 1 });
+  }
+};
+
+export interface TimelinePoint {
+  time: number;
+  polarity: number;
+  headline: string;
+  sentiment: SentimentType;
+}
+
+export interface TimelineBucket {
+  time: number;
+  count: number;
+  average: number;
+  /** Count-weighted mean polarity of this bucket and the ones before it. */
+  rolling: number;
+}
+
+export interface Timeline {
+  points: TimelinePoint[];
+  buckets: TimelineBucket[];
+}
+
+export const buildTimeline = (
+  results: AnalysisResult[],
+  size: BucketSize,
+  window = ROLLING_WINDOW
+): Timeline => {
+  const points = results
+    .map((r) => ({
+      time: r.timestamp.getTime(),
+      polarity: r.polarity,
+      headline: r.headline,
+      sentiment: r.sentiment,
+    }))
+    .sort((a, b) => a.time - b.time);
+
+  const grouped = new Map<number, { sum: number; count: number }>();
+  for (const p of points) {
+    const key = bucketStart(new Date(p.time), size).getTime();
+    const entry = grouped.get(key) ?? { sum: 0, count: 0 };
+    entry.sum += p.polarity;
+    entry.count += 1;
+    grouped.set(key, entry);
+  }
+
+  const ordered = [...grouped.entries()].sort(([a], [b]) => a - b);
+  const buckets = ordered.map(([time, { sum, count }], idx) => {
+    const recent = ordered.slice(Math.max(0, idx - window + 1), idx + 1);
+    const recentSum = recent.reduce((acc, [, e]) => acc + e.sum, 0);
+    const recentCount = recent.reduce((acc, [, e]) => acc + e.count, 0);
+    return { time, count, average: sum / count, rolling: recentSum / recentCount };
+  });
+
+  return { points, buckets };
+};
@@ -4,3 +4,12 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/** Escapes `value` for use as a literal inside a RegExp source. */
+export const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Prefixes text a spreadsheet would run as a formula (leading =, +, - or @)
+ * with an apostrophe, so an exported headline like "=HYPERLINK(…)" stays text.
+ */
+export const escapeFormula = (value: string) => (/^[=+\-@]/.test(value) ? `'${value}` : value);
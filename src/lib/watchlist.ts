@@ -0,0 +1,88 @@
+import { z } from "zod";
+
+import {
+  DEFAULT_LIMIT,
+  sentimentModelSchema,
+  summarySchema,
+  type AnalyzeResponse,
+  type SentimentModel,
+} from "@/lib/api";
+import { reclassifyResults, toAnalysisResults } from "@/lib/analysis";
+import type { NeutralBand } from "@/lib/sentiment-engine";
+import { averagePolarity, summarizeResults } from "@/lib/stats";
+
+export const WATCHLIST_STORAGE_KEY = "financial-sentiment:watchlist";
+
+export const REFRESH_INTERVALS = [5, 15, 30, 60] as const;
+
+const snapshotSchema = z.object({
+  fetchedAt: z.number(),
+  summary: summarySchema,
+  averagePolarity: z.number(),
+  /** Missing on snapshots saved before the model picker existed. */
+  model: sentimentModelSchema.optional(),
+  /** Neutral band the summary was counted with; missing on older snapshots. */
+  band: z.object({ lower: z.number(), upper: z.number() }).optional(),
+});
+
+const itemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  query: z.string(),
+  limit: z.number().int().positive(),
+  latest: snapshotSchema.optional(),
+  previous: snapshotSchema.optional(),
+});
+
+export const watchlistSchema = z.object({
+  intervalMinutes: z.number().positive(),
+  items: z.array(itemSchema),
+});
+
+export type WatchlistSnapshot = z.infer<typeof snapshotSchema>;
+export type WatchlistItem = z.infer<typeof itemSchema>;
+export type Watchlist = z.infer<typeof watchlistSchema>;
+
+export const EMPTY_WATCHLIST: Watchlist = { intervalMinutes: 15, items: [] };
+
+export const createWatchlistItem = (name: string, query: string): WatchlistItem => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name: name.trim() || query.trim(),
+  query: query.trim(),
+  limit: DEFAULT_LIMIT,
+});
+
+/** Counts labels with the user's neutral band, like the analyzer, not the backend's fixed one. */
+export const toSnapshot = (
+  response: AnalyzeResponse,
+  fetchedAt: number,
+  model: SentimentModel,
+  band: NeutralBand
+): WatchlistSnapshot => {
+  const results = reclassifyResults(toAnalysisResults(response, new Date(fetchedAt)), band);
+  return {
+    fetchedAt,
+    model,
+    band: { lower: band.lower, upper: band.upper },
+    summary: summarizeResults(results),
+    averagePolarity: averagePolarity(results),
+  };
+};
+
+const sameBand = (a?: NeutralBand, b?: NeutralBand) => a?.lower === b?.lower && a?.upper === b?.upper;
+
+/**
+ * Shifts `latest` to `previous` when a newer fetch arrives; repeated calls with
+ * the same fetch are no-ops. Scores from different models, or counts from
+ * different neutral bands, are not comparable, so changing either starts the
+ * change line over.
+ */
+export const recordSnapshot = (item: WatchlistItem, snapshot: WatchlistSnapshot): WatchlistItem => {
+  const comparable = (other?: WatchlistSnapshot) =>
+    other?.model === snapshot.model && sameBand(other.band, snapshot.band);
+  if (item.latest && item.latest.fetchedAt >= snapshot.fetchedAt && comparable(item.latest)) {
+    return item;
+  }
+  const previous = comparable(item.latest) ? item.latest : undefined;
+  return { ...item, previous, latest: snapshot };
+};
@@ -0,0 +1,310 @@
+import { Fragment, useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ArrowLeft, Columns3, Plus, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
+import { BucketSizePicker } from "@/components/SentimentTimeline";
+import { useNewsAnalyses } from "@/hooks/use-analysis";
+import { useSettings } from "@/hooks/use-settings";
+import { DEFAULT_LIMIT, describeApiError } from "@/lib/api";
+import { reclassifyResults, toAnalysisResults, type AnalysisResult } from "@/lib/analysis";
+import {
+  MAX_COMPARE,
+  MIN_COMPARE,
+  mergeTimelines,
+  parseCompareQueries,
+  seriesColor,
+  uniqueQueries,
+} from "@/lib/compare";
+import { SENTIMENT_TONE } from "@/lib/sentiment-tone";
+import { averagePolarity, summarizeResults } from "@/lib/stats";
+import { BUCKET_TICK_FORMAT, buildTimeline, type BucketSize } from "@/lib/timeline";
+import { cn } from "@/lib/utils";
+
+const PLACEHOLDERS = ["Tesla", "Ford", "GM", "Rivian", "Toyota"];
+
+interface CompareSeries {
+  key: string;
+  query: string;
+  color: string;
+  results: AnalysisResult[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+const SummaryBars = ({ series }: { series: CompareSeries[] }) => (
+  <Card className="p-6 mb-8 shadow-md border-2">
+    <h2 className="text-2xl font-bold mb-6 text-foreground">Sentiment Mix</h2>
+    <div className="space-y-4">
+      {series.map((s) => {
+        const summary = summarizeResults(s.results);
+        const total = s.results.length || 1;
+        const average = averagePolarity(s.results);
+        return (
+          <div key={s.key} className="grid grid-cols-[10rem_1fr_5rem] items-center gap-4">
+            <span className="flex items-center gap-2 truncate font-semibold">
+              <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: s.color }} />
+              {s.query}
+            </span>
+            {s.results.length > 0 ? (
+              <div className="flex h-6 w-full overflow-hidden rounded-md bg-muted text-xs font-semibold">
+                {(["positive", "neutral", "negative"] as const).map((sentiment) =>
+                  summary[sentiment] > 0 ? (
+                    <div
+                      key={sentiment}
+                      className={cn(SENTIMENT_TONE[sentiment].solid, "flex items-center justify-center")}
+                      style={{ width: `${(summary[sentiment] / total) * 100}%` }}
+                      title={`${summary[sentiment]} ${sentiment}`}
+                    >
+                      {Math.round((summary[sentiment] / total) * 100)}%
+                    </div>
+                  ) : null
+                )}
+              </div>
+            ) : (
+              <div className="h-6 w-full rounded-md bg-muted animate-pulse" />
+            )}
+            <span className="text-right font-mono text-sm">
+              {s.results.length ? `${average > 0 ? "+" : ""}${average.toFixed(3)}` : "–"}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  </Card>
+);
+
+const CombinedTimeline = ({ series }: { series: CompareSeries[] }) => {
+  const [bucketSize, setBucketSize] = useState<BucketSize>("day");
+  const rows = mergeTimelines(
+    series.map((s) => ({ key: s.key, timeline: buildTimeline(s.results, bucketSize) }))
+  );
+  const config: ChartConfig = Object.fromEntries(
+    series.map((s) => [s.key, { label: s.query, color: s.color }])
+  );
+
+  return (
+    <Card className="p-6 mb-8 shadow-md border-2">
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Combined Timeline</h2>
+          <p className="text-sm text-muted-foreground">Rolling average polarity per query.</p>
+        </div>
+        <BucketSizePicker value={bucketSize} onChange={setBucketSize} />
+      </div>
+      <ChartContainer config={config} className="max-h-80 w-full">
+        <LineChart data={rows} margin={{ left: 4, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(t) => format(t, BUCKET_TICK_FORMAT[bucketSize])}
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+          />
+          <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} tickLine={false} axisLine={false} width={32} />
+          <ReferenceLine y={0} stroke="hsl(var(--border))" />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => {
+                  const time = payload?.[0]?.payload?.time;
+                  return time ? format(time, BUCKET_TICK_FORMAT[bucketSize]) : null;
+                }}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {series.map((s) => (
+            <Line
+              key={s.key}
+              dataKey={s.key}
+              type="monotone"
+              stroke={`var(--color-${s.key})`}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+    </Card>
+  );
+};
+
+const ResultColumn = ({ series }: { series: CompareSeries }) => (
+  <div className="h-full overflow-y-auto p-4">
+    <h3 className="flex items-center gap-2 text-lg font-bold mb-4">
+      <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: series.color }} />
+      {series.query}
+    </h3>
+    {series.isLoading && <p className="text-sm text-muted-foreground">Analyzing…</p>}
+    {series.error && <p className="text-sm text-red-500">{series.error}</p>}
+    <ul className="space-y-3">
+      {series.results.map((r, idx) => (
+        <li
+          key={idx}
+          className={cn("border-l-4 pl-3 text-sm", SENTIMENT_TONE[r.sentiment ?? "neutral"].accent)}
+        >
+          {r.link ? (
+            <a href={r.link} target="_blank" rel="noreferrer" className="hover:underline">
+              {r.headline}
+            </a>
+          ) : (
+            r.headline
+          )}
+          <span className="block text-xs text-muted-foreground">
+            {r.source && `${r.source} · `}
+            {r.timestamp.toLocaleDateString()} · {r.polarity > 0 ? "+" : ""}
+            {r.polarity.toFixed(3)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+/** Always offer at least MIN_COMPARE inputs, even when the URL has fewer queries. */
+const padDraft = (queries: string[]) =>
+  queries.length >= MIN_COMPARE
+    ? queries
+    : [...queries, ...Array<string>(MIN_COMPARE - queries.length).fill("")];
+
+const Compare = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queries = parseCompareQueries(searchParams);
+  const queriesKey = queries.join("\n");
+  const [draft, setDraft] = useState<string[]>(() => padDraft(queries));
+  const [{ neutralBand, model }] = useSettings();
+  const analyses = useNewsAnalyses(queries, DEFAULT_LIMIT, model);
+
+  // Follow the URL when navigating back/forward between comparisons.
+  useEffect(() => {
+    if (queriesKey) setDraft(padDraft(queriesKey.split("\n")));
+  }, [queriesKey]);
+
+  const series: CompareSeries[] = queries.map((query, idx) => {
+    const analysis = analyses[idx];
+    return {
+      key: `q${idx}`,
+      query,
+      color: seriesColor(idx),
+      results: analysis?.data
+        ? reclassifyResults(toAnalysisResults(analysis.data, new Date(analysis.dataUpdatedAt)), neutralBand)
+        : [],
+      isLoading: Boolean(analysis?.isLoading),
+      error: analysis?.isError ? describeApiError(analysis.error) : null,
+    };
+  });
+
+  // Deduplicated like the URL parser, so the count and the button match what runs.
+  const filled = uniqueQueries(draft);
+
+  const runComparison = () => {
+    if (filled.length < MIN_COMPARE) return;
+    const next = new URLSearchParams();
+    filled.slice(0, MAX_COMPARE).forEach((q) => next.append("q", q));
+    setSearchParams(next);
+  };
+
+  const updateDraft = (idx: number, value: string) =>
+    setDraft((prev) => prev.map((q, i) => (i === idx ? value : q)));
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <section className="gradient-hero py-12 px-4">
+        <div className="container mx-auto max-w-6xl">
+          <Link
+            to="/"
+            className="inline-flex items-center gap-1 text-primary-foreground/90 hover:text-primary-foreground mb-6"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to analyzer
+          </Link>
+          <h1 className="text-4xl md:text-5xl font-extrabold text-primary-foreground mb-6 tracking-tight">
+            Compare Sentiment
+          </h1>
+          <Card className="p-6 shadow-glow border-2 bg-background/95">
+            <div className="flex flex-col gap-3">
+              {draft.map((q, idx) => (
+                <div key={idx} className="flex gap-2 items-center">
+                  <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: seriesColor(idx) }} />
+                  <Input
+                    placeholder={`Query ${idx + 1} (e.g. '${PLACEHOLDERS[idx]}')`}
+                    value={q}
+                    onChange={(e) => updateDraft(idx, e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && runComparison()}
+                  />
+                  {draft.length > MIN_COMPARE && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Remove query"
+                      onClick={() => setDraft((prev) => prev.filter((_, i) => i !== idx))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <div className="flex flex-wrap gap-3 justify-between">
+                <Button
+                  variant="outline"
+                  onClick={() => setDraft((prev) => [...prev, ""])}
+                  disabled={draft.length >= MAX_COMPARE}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add query
+                </Button>
+                <Button onClick={runComparison} disabled={filled.length < MIN_COMPARE} className="font-bold">
+                  <Columns3 className="w-4 h-4 mr-2" />
+                  Compare {filled.length} queries
+                </Button>
+              </div>
+            </div>
+          </Card>
+        </div>
+      </section>
+
+      {series.length >= MIN_COMPARE && (
+        <section className="py-12 px-4">
+          <div className="container mx-auto max-w-6xl">
+            <SummaryBars series={series} />
+            <CombinedTimeline series={series} />
+            <Card className="shadow-md border-2 h-[36rem] overflow-hidden">
+              <ResizablePanelGroup direction="horizontal">
+                {series.map((s, idx) => (
+                  <Fragment key={s.key}>
+                    {idx > 0 && <ResizableHandle withHandle />}
+                    <ResizablePanel id={s.key} order={idx} defaultSize={100 / series.length} minSize={12}>
+                      <ResultColumn series={s} />
+                    </ResizablePanel>
+                  </Fragment>
+                ))}
+              </ResizablePanelGroup>
+            </Card>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default Compare;
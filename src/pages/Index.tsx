@@ -1,8 +1,13 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import {
   TrendingUp,
   TrendingDown,
@@ -11,138 +16,231 @@ import {
   Search,
   Filter,
   ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
   CheckCircle2,
   Brain,
   Zap,
   ExternalLink,
+  Columns3,
+  ListChecks,
+  Type,
+  Printer,
+  Crosshair,
 } from "lucide-react";
 import stockChart from "@/assets/stock-chart.jpg";
 import forexChart from "@/assets/forex-chart.jpg";
 import financialGraphs from "@/assets/financial-graphs.jpg";
-
-type SentimentType = "positive" | "negative" | "neutral" | null;
-
-interface AnalysisResult {
-  headline: string;
-  sentiment: SentimentType;
-  timestamp: Date;
-  explanation: string;
-  link?: string;
-}
-
-const API_BASE =
-  import.meta.env.VITE_API_BASE || "https://financial-sentiment-ai.onrender.com";
-
+import { describeApiError, DEFAULT_LIMIT } from "@/lib/api";
+import { nextSort, sortResults, SORT_OPTIONS, type SortKey } from "@/lib/sort";
+import {
+  filterByEvents,
+  filterBySentiment,
+  filterBySignal,
+  SENTIMENT_FILTERS,
+  SIGNAL_FILTERS,
+} from "@/lib/filters";
+import { filterBySource } from "@/lib/sources";
+import { clusterResults, storyRepresentatives } from "@/lib/clustering";
+import { annotateEntities } from "@/lib/entities";
+import { annotateEvents } from "@/lib/events";
+import { annotateForex } from "@/lib/forex";
+import { annotateMagnitudes } from "@/lib/magnitude";
+import { annotateSignals, instrumentOptions, resolveInstrument } from "@/lib/market-signal";
+import {
+  reclassifyResults,
+  toAnalysisResults,
+  toClassifiedResult,
+  type AnalysisResult,
+  type SentimentType,
+} from "@/lib/analysis";
+import { summarizeResults } from "@/lib/stats";
+import { modelLabel } from "@/lib/models";
+import { analysisKeys, useNewsAnalysis, useTextClassification } from "@/hooks/use-analysis";
+import { useAnalysisParams } from "@/hooks/use-analysis-params";
+import { useBatchAnalysis } from "@/hooks/use-batch-analysis";
+import { useSettings } from "@/hooks/use-settings";
+import { useSymbolTable } from "@/hooks/use-symbol-table";
+import { runIdFor, useHistoryActions, useHistoryRun } from "@/hooks/use-history";
+import { HistorySidebar } from "@/components/HistorySidebar";
+import { WatchlistPanel } from "@/components/WatchlistPanel";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { ExplanationPanel } from "@/components/ExplanationPanel";
+import { SummaryPanel } from "@/components/SummaryPanel";
+import { SentimentTimeline } from "@/components/SentimentTimeline";
+import { BatchAnalyzer } from "@/components/BatchAnalyzer";
+import { ScoredTextCard } from "@/components/ScoredTextCard";
+import { ExportDialog } from "@/components/ExportDialog";
+import { SourceBreakdown } from "@/components/SourceBreakdown";
+import { SimilarHeadlines } from "@/components/SimilarHeadlines";
+import { NeutralBandControl } from "@/components/NeutralBandControl";
+import { ImportResultsButton } from "@/components/ImportResultsButton";
+import { ModelPicker } from "@/components/ModelPicker";
+import { EntityChips } from "@/components/EntityChips";
+import { EntityBreakdown } from "@/components/EntityBreakdown";
+import { ForexBadge } from "@/components/ForexBadge";
+import { ForexBreakdown } from "@/components/ForexBreakdown";
+import { MarketSignalBadge } from "@/components/MarketSignalBadge";
+import { MarketSignalPanel } from "@/components/MarketSignalPanel";
+import { EventTags } from "@/components/EventTags";
+import { FactLine } from "@/components/FactLine";
+import { EventFilterChips } from "@/components/EventFilterChips";
+
+type InputMode = "text" | "news" | "batch";
 
 const Index = () => {
-  const [headline, setHeadline] = useState("");
-  const [results, setResults] = useState<AnalysisResult[]>([]);
-  const [sortBy, setSortBy] = useState<"date" | "time" | "sentiment">("time");
-  const [filterBy, setFilterBy] = useState<SentimentType | "all">("all");
-  const [isLoading, setIsLoading] = useState(false);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
-  const [summary, setSummary] = useState<{
-    positive: number;
-    negative: number;
-    neutral: number;
-  } | null>(null);
-
-  const analyzeHeadline = async () => {
+  const {
+    query: submittedQuery,
+    runId,
+    scoredText,
+    filter: filterBy,
+    signalFilter,
+    eventFilter,
+    sort,
+    excludedSources,
+    countStoriesOnce,
+    setQuery,
+    setScoredText,
+    openRun,
+    closeRun,
+    setFilter: setFilterBy,
+    setSignalFilter,
+    setEventFilter,
+    setSort,
+    setExcludedSources,
+    setCountStoriesOnce,
+  } = useAnalysisParams();
+  const [headline, setHeadline] = useState(submittedQuery);
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const [settings, setSettings] = useSettings();
+  const { neutralBand, model } = settings;
+  const [symbolTable, setSymbolTable] = useSymbolTable();
+  const instruments = useMemo(() => instrumentOptions(symbolTable), [symbolTable]);
+  const instrument = useMemo(
+    () => resolveInstrument(settings.instrument, symbolTable),
+    [settings.instrument, symbolTable]
+  );
+  // A reopened history run replaces the live query until a new search is made.
+  const analysis = useNewsAnalysis(runId ? "" : submittedQuery, DEFAULT_LIMIT, model);
+  const savedRun = useHistoryRun(runId);
+  const { mutate: recordRun } = useHistoryActions().record;
+  const [mode, setMode] = useState<InputMode>(() => (scoredText && !submittedQuery ? "text" : "news"));
+  const [textDraft, setTextDraft] = useState(scoredText);
+  const classification = useTextClassification(scoredText, model);
+  const batch = useBatchAnalysis(model);
+
+  // Keep the inputs in step with the URL when navigating back/forward.
+  useEffect(() => {
+    setHeadline(submittedQuery);
+  }, [submittedQuery]);
+
+  useEffect(() => {
+    setTextDraft(scoredText);
+  }, [scoredText]);
+
+  useEffect(() => {
+    if (!analysis.data || !analysis.dataUpdatedAt) return;
+    const { offline, ...response } = analysis.data;
+    recordRun({
+      id: runIdFor(submittedQuery, DEFAULT_LIMIT, model, analysis.dataUpdatedAt),
+      name: submittedQuery,
+      query: submittedQuery,
+      limit: DEFAULT_LIMIT,
+      createdAt: analysis.dataUpdatedAt,
+      pinned: false,
+      model,
+      offline,
+      response,
+    });
+  }, [analysis.data, analysis.dataUpdatedAt, submittedQuery, model, recordRun]);
+
+  const response = runId ? savedRun.data?.response : analysis.data;
+  const fetchedAt = runId ? savedRun.data?.createdAt : analysis.dataUpdatedAt;
+  const isOffline = Boolean(runId ? savedRun.data?.offline : analysis.data?.offline);
+
+  // Labels are recomputed from raw polarity with the user's neutral band, then
+  // each headline is tagged with the companies, currencies, events and numeric
+  // moves it mentions and its market signal for the chosen instrument.
+  const annotate = useCallback(
+    (items: AnalysisResult[]) =>
+      annotateSignals(
+        annotateMagnitudes(
+          annotateEvents(
+            annotateForex(annotateEntities(reclassifyResults(items, neutralBand), symbolTable, neutralBand))
+          )
+        ),
+        instrument,
+        neutralBand
+      ),
+    [neutralBand, symbolTable, instrument]
+  );
+  const newsResults = useMemo(
+    () => (response ? annotate(toAnalysisResults(response, new Date(fetchedAt))) : []),
+    [response, fetchedAt, annotate]
+  );
+  const batchResults = useMemo(() => annotate(batch.results), [batch.results, annotate]);
+  // Batch results share the results view; the tab decides which set is shown.
+  const isBatch = mode === "batch";
+  const results = isBatch ? batchResults : newsResults;
+  // Excluded publishers drop out of every summary and panel, not just the list;
+  // only the source breakdown keeps them so they can be switched back on.
+  const includedResults = useMemo(() => filterBySource(results, excludedSources), [results, excludedSources]);
+  const stories = useMemo(() => clusterResults(includedResults), [includedResults]);
+  const summaryResults = countStoriesOnce ? storyRepresentatives(stories, neutralBand) : includedResults;
+  const summary = includedResults.length > 0 ? summarizeResults(summaryResults) : null;
+  const isLoading = analysis.isLoading || savedRun.isLoading;
+  const errorMsg = analysis.isError
+    ? describeApiError(analysis.error)
+    : runId && savedRun.isSuccess && !savedRun.data
+      ? "That saved analysis no longer exists."
+      : null;
+
+  const scoredResult = useMemo(
+    () =>
+      classification.data
+        ? annotate([toClassifiedResult(classification.data, new Date(classification.dataUpdatedAt))])[0]
+        : null,
+    [classification.data, classification.dataUpdatedAt, annotate]
+  );
+  const textErrorMsg = classification.isError ? describeApiError(classification.error) : null;
+
+  const scoreText = () => {
+    const text = textDraft.trim();
+    if (!text) return;
+    if (text === scoredText) {
+      if (classification.data?.offline) classification.refetch();
+      return;
+    }
+    setScoredText(text);
+  };
+
+  const analyzeHeadline = () => {
     const query = headline.trim();
     if (!query) return;
 
-    setIsLoading(true);
-    setErrorMsg(null);
-
-    try {
-      const res = await fetch(`${API_BASE}/api/analyze`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query, limit: 10 }),
-      });
-
-      if (!res.ok) {
-        const text = await res.text();
-        console.error("Backend error:", text);
-        setErrorMsg("Backend returned an error. Check the Flask console.");
-        setIsLoading(false);
-        return;
-      }
-
-      const data = await res.json();
-
-      const articles = (data.articles || []) as any[];
-
-      const mapped: AnalysisResult[] = articles.map((a) => {
-        const sentiment = (a.sentiment || "neutral") as SentimentType;
-        const ts = a.published ? new Date(a.published) : new Date();
-
-        const explanation =
-          a.explanation ||
-          `Polarity score: ${
-            typeof a.polarity === "number"
-              ? a.polarity.toFixed(3)
-              : String(a.polarity ?? "")
-          }`;
-
-        return {
-          headline: a.title,
-          sentiment,
-          timestamp: ts,
-          explanation,
-          link: a.link,
-        };
-      });
-
-      setResults(mapped);
-      if (data.summary) {
-        setSummary({
-          positive: data.summary.positive ?? 0,
-          negative: data.summary.negative ?? 0,
-          neutral: data.summary.neutral ?? 0,
-        });
-      } else {
-        setSummary(null);
-      }
-    } catch (err) {
-      console.error(err);
-      setErrorMsg(
-        "Could not reach the backend. Is python app.py running on port 5000?"
-      );
-    } finally {
-      setIsLoading(false);
+    if (query === submittedQuery && !runId) {
+      if (!analysis.data || analysis.data.offline || analysis.isStale) analysis.refetch();
+      return;
     }
+    setQuery(query);
   };
 
-  const clearResults = () => {
-    setResults([]);
-    setSummary(null);
-    setErrorMsg(null);
+  const onHeadlineChange = (value: string) => {
+    setHeadline(value);
+    // A new headline supersedes whatever is still loading for the old one.
+    if (analysis.isFetching && value.trim() !== submittedQuery) {
+      queryClient.cancelQueries({ queryKey: analysisKeys.allNews() });
+    }
+  };
+
+  const changeSort = (key: SortKey) => {
+    setSort(nextSort(sort, key));
   };
 
-  const exportResults = () => {
-    if (!results.length) return;
-
-    const csv = [
-      ["Headline", "Sentiment", "Date", "Time", "Link", "Explanation"],
-      ...results.map((r) => [
-        `"${r.headline.replace(/"/g, '""')}"`,
-        r.sentiment || "",
-        r.timestamp.toLocaleDateString(),
-        r.timestamp.toLocaleTimeString(),
-        r.link || "",
-        `"${r.explanation.replace(/"/g, '""')}"`,
-      ]),
-    ]
-      .map((row) => row.join(","))
-      .join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "sentiment-analysis-results.csv";
-    a.click();
+  const clearResults = () => {
+    if (isBatch) batch.clear();
+    else setQuery("");
   };
 
   const getSentimentIcon = (sentiment: SentimentType) => {
@@ -171,371 +269,606 @@ const Index = () => {
     }
   };
 
-  const filteredResults = results.filter(
-    (r) => filterBy === "all" || r.sentiment === filterBy
+  const sortedResults = useMemo(
+    () =>
+      sortResults(
+        filterByEvents(
+          filterBySignal(filterBySentiment(includedResults, filterBy), signalFilter),
+          eventFilter
+        ),
+        sort
+      ),
+    [includedResults, filterBy, signalFilter, eventFilter, sort]
   );
 
-  const sortedResults = [...filteredResults].sort((a, b) => {
-    if (sortBy === "date" || sortBy === "time") {
-      return b.timestamp.getTime() - a.timestamp.getTime();
-    }
-    if (sortBy === "sentiment") {
-      const order: Record<NonNullable<SentimentType>, number> = {
-        positive: 3,
-        neutral: 2,
-        negative: 1,
-      };
-      return (
-        (order[b.sentiment || "neutral"] || 0) -
-        (order[a.sentiment || "neutral"] || 0)
-      );
-    }
-    return 0;
-  });
+  // Clustering after sorting keeps each story at its lead headline's position.
+  // Pairwise similarity is O(n²) and batch runs reach 500 rows, so only redo it when the list changes.
+  const sortedStories = useMemo(() => clusterResults(sortedResults), [sortedResults]);
 
   return (
-    <div className="min-h-screen">
-      {/* Hero Section */}
-      <section className="gradient-hero py-20 px-4 relative overflow-hidden">
-        <div className="absolute inset-0 bg-grid-white/[0.05] bg-[size:32px_32px]" />
-        <div className="absolute inset-0 opacity-10">
-          <img src={stockChart} alt="" className="w-full h-full object-cover" />
-        </div>
-        <div className="container mx-auto max-w-4xl relative">
-          <div className="text-center mb-12 animate-fade-in">
-            <h1 className="text-5xl md:text-7xl font-extrabold text-primary-foreground mb-4 tracking-tight">
-              Financial News Sentiment Analyzer
-            </h1>
-            <p className="text-xl md:text-2xl text-primary-foreground/90 font-medium">
-              Analyze financial news headlines instantly with AI-powered sentiment detection
-            </p>
-          </div>
-
-          <Card className="p-8 shadow-glow border-2 backdrop-blur-sm bg-background/95 animate-scale-in">
-            <div className="flex flex-col gap-4">
-              <div className="flex gap-3 flex-col sm:flex-row">
-                <Input
-                  placeholder="Enter financial news headline (e.g., 'Tesla stock crashes 15%')"
-                  value={headline}
-                  onChange={(e) => setHeadline(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && analyzeHeadline()}
-                  className="flex-1 h-14 text-lg border-2 focus-visible:ring-primary"
-                />
-                <Button
-                  onClick={analyzeHeadline}
-                  size="lg"
-                  disabled={isLoading}
-                  className="h-14 px-8 bg-primary hover:bg-primary-dark text-primary-foreground font-bold text-lg shadow-md hover:shadow-lg transition-smooth hover:scale-105 disabled:opacity-70 disabled:hover:scale-100"
-                >
-                  {isLoading ? (
-                    <span className="flex items-center gap-2">
-                      <span className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
-                      Analyzing...
-                    </span>
-                  ) : (
-                    <>
-                      <Search className="w-5 h-5 mr-2" />
-                      Analyze Sentiment
-                    </>
-                  )}
-                </Button>
-              </div>
-              <p className="text-sm text-muted-foreground text-center">
-                Try full headlines like: &quot;Gold prices surge after Fed cuts rates&quot; or
-                &quot;Stocks crash amid recession fears&quot;
-              </p>
-              {errorMsg && (
-                <p className="text-sm text-red-500 text-center mt-2">
-                  {errorMsg}
+    <SidebarProvider defaultOpen={false}>
+      <HistorySidebar
+        activeRunId={runId}
+        onOpen={(run) => {
+          setMode("news");
+          openRun(run.id, run.query);
+        }}
+        onDeleted={(run) => run.id === runId && closeRun()}
+      />
+      <SidebarInset>
+        <div className="min-h-screen">
+          {/* Hero Section */}
+          <section className="gradient-hero py-20 px-4 relative overflow-hidden">
+            <SidebarTrigger
+              className="absolute top-4 left-4 z-10 h-10 w-10 text-primary-foreground hover:bg-primary-foreground/20 hover:text-primary-foreground"
+              title="Analysis history"
+            />
+            <div className="absolute top-4 right-4 z-10 flex gap-1">
+              <ImportResultsButton
+                onImported={(run) => {
+                  setMode("news");
+                  openRun(run.id, run.query);
+                }}
+                className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-semibold text-primary-foreground hover:bg-primary-foreground/20"
+              />
+              <Link
+                to={submittedQuery ? `/compare?q=${encodeURIComponent(submittedQuery)}` : "/compare"}
+                className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-semibold text-primary-foreground hover:bg-primary-foreground/20"
+              >
+                <Columns3 className="w-4 h-4" />
+                Compare queries
+              </Link>
+            </div>
+            <div className="absolute inset-0 bg-grid-white/[0.05] bg-[size:32px_32px]" />
+            <div className="absolute inset-0 opacity-10">
+              <img src={stockChart} alt="" className="w-full h-full object-cover" />
+            </div>
+            <div className="container mx-auto max-w-4xl relative">
+              <div className="text-center mb-12 animate-fade-in">
+                <h1 className="text-5xl md:text-7xl font-extrabold text-primary-foreground mb-4 tracking-tight">
+                  Financial News Sentiment Analyzer
+                </h1>
+                <p className="text-xl md:text-2xl text-primary-foreground/90 font-medium">
+                  Analyze financial news headlines instantly with AI-powered sentiment detection
                 </p>
-              )}
+              </div>
+
+              <Card className="p-8 shadow-glow border-2 backdrop-blur-sm bg-background/95 animate-scale-in">
+                <Tabs value={mode} onValueChange={(value) => setMode(value as InputMode)}>
+                  <div className="flex flex-col sm:flex-row gap-3 justify-between items-start sm:items-center mb-6">
+                    <TabsList>
+                      <TabsTrigger value="text">
+                        <Type className="w-4 h-4 mr-2" />
+                        Score my text
+                      </TabsTrigger>
+                      <TabsTrigger value="news">
+                        <Search className="w-4 h-4 mr-2" />
+                        Search news
+                      </TabsTrigger>
+                      <TabsTrigger value="batch">
+                        <ListChecks className="w-4 h-4 mr-2" />
+                        Batch headlines
+                      </TabsTrigger>
+                    </TabsList>
+                    <ModelPicker
+                      value={model}
+                      onChange={(next) => setSettings((prev) => ({ ...prev, model: next }))}
+                    />
+                  </div>
+                  <TabsContent value="text" className="mt-0">
+                    <div className="flex flex-col gap-4">
+                      <div className="flex gap-3 flex-col sm:flex-row">
+                        <Input
+                          placeholder="Enter a headline to score (e.g., 'Tesla stock crashes 15%')"
+                          value={textDraft}
+                          onChange={(e) => setTextDraft(e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && scoreText()}
+                          className="flex-1 h-14 text-lg border-2 focus-visible:ring-primary"
+                        />
+                        <Button
+                          onClick={scoreText}
+                          size="lg"
+                          disabled={classification.isFetching}
+                          className="h-14 px-8 bg-primary hover:bg-primary-dark text-primary-foreground font-bold text-lg shadow-md hover:shadow-lg transition-smooth hover:scale-105 disabled:opacity-70 disabled:hover:scale-100"
+                        >
+                          {classification.isFetching ? (
+                            <span className="flex items-center gap-2">
+                              <span className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                              Scoring...
+                            </span>
+                          ) : (
+                            <>
+                              <Type className="w-5 h-5 mr-2" />
+                              Score Text
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Scores exactly what you type. To find and score recent articles about a
+                        company or topic, use Search news.
+                      </p>
+                      {textErrorMsg && (
+                        <p className="text-sm text-red-500 text-center mt-2">{textErrorMsg}</p>
+                      )}
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="news" className="mt-0">
+                    <div className="flex flex-col gap-4">
+                      <div className="flex gap-3 flex-col sm:flex-row">
+                        <Input
+                          placeholder="Search news about a company or topic (e.g., 'Tesla', 'gold prices')"
+                          value={headline}
+                          onChange={(e) => onHeadlineChange(e.target.value)}
+                          onKeyDown={(e) => e.key === "Enter" && analyzeHeadline()}
+                          className="flex-1 h-14 text-lg border-2 focus-visible:ring-primary"
+                        />
+                        <Button
+                          onClick={analyzeHeadline}
+                          size="lg"
+                          disabled={isLoading}
+                          className="h-14 px-8 bg-primary hover:bg-primary-dark text-primary-foreground font-bold text-lg shadow-md hover:shadow-lg transition-smooth hover:scale-105 disabled:opacity-70 disabled:hover:scale-100"
+                        >
+                          {isLoading ? (
+                            <span className="flex items-center gap-2">
+                              <span className="w-4 h-4 border-2 border-primary-foreground border-t-transparent rounded-full animate-spin" />
+                              Analyzing...
+                            </span>
+                          ) : (
+                            <>
+                              <Search className="w-5 h-5 mr-2" />
+                              Analyze Sentiment
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                      <p className="text-sm text-muted-foreground text-center">
+                        Searches Google News and scores each headline found, e.g. &quot;Nvidia
+                        earnings&quot; or &quot;oil prices&quot;
+                      </p>
+                      {savedRun.data && (
+                        <p className="text-sm text-muted-foreground text-center mt-2">
+                          Viewing saved analysis &quot;{savedRun.data.name}&quot; from{" "}
+                          {new Date(savedRun.data.createdAt).toLocaleString()}.{" "}
+                          <button
+                            type="button"
+                            onClick={() => setQuery(savedRun.data.query)}
+                            className="text-primary underline hover:text-primary/90"
+                          >
+                            Run it again
+                          </button>
+                        </p>
+                      )}
+                      {isOffline && (
+                        <p className="text-sm text-muted-foreground text-center mt-2">
+                          Backend unreachable. Your headline was scored locally by the in-browser rule
+                          engine.
+                        </p>
+                      )}
+                      {errorMsg && (
+                        <p className="text-sm text-red-500 text-center mt-2">
+                          {errorMsg}
+                        </p>
+                      )}
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="batch" className="mt-0">
+                    <BatchAnalyzer batch={batch} />
+                  </TabsContent>
+                </Tabs>
+              </Card>
             </div>
-          </Card>
-        </div>
-      </section>
-
-      {/* Results Section */}
-      {results.length > 0 && (
-        <section className="py-16 px-4 bg-secondary/30">
-          <div className="container mx-auto max-w-6xl">
-            {/* Filters & Sort */}
-            <Card className="p-6 mb-8 shadow-md border-2">
-              <div className="flex flex-col lg:flex-row gap-6 justify-between items-start lg:items-center">
-                <div className="flex flex-col sm:flex-row gap-4 flex-1">
-                  <div className="flex items-center gap-2">
-                    <Filter className="w-5 h-5 text-primary" />
-                    <span className="font-semibold">Filter:</span>
+          </section>
+
+          {/* Scored Text */}
+          {mode === "text" && scoredResult && (
+            <section className="py-16 px-4 bg-secondary/30">
+              <div className="container mx-auto max-w-4xl">
+                <ScoredTextCard result={scoredResult} offline={Boolean(classification.data?.offline)} />
+              </div>
+            </section>
+          )}
+
+          {/* Results Section */}
+          {mode !== "text" && results.length > 0 && (
+            <section className="py-16 px-4 bg-secondary/30">
+              <div className="container mx-auto max-w-6xl">
+                {summary && (
+                  <SummaryPanel
+                    summary={summary}
+                    results={summaryResults}
+                    band={neutralBand}
+                    actions={
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="count-stories-once"
+                          checked={countStoriesOnce}
+                          onCheckedChange={setCountStoriesOnce}
+                        />
+                        <Label htmlFor="count-stories-once">
+                          Count each story once ({stories.length} of {includedResults.length})
+                        </Label>
+                      </div>
+                    }
+                  />
+                )}
+                {!isBatch && <SentimentTimeline results={includedResults} />}
+                {!isBatch && (
+                  <SourceBreakdown
+                    results={results}
+                    excluded={excludedSources}
+                    band={neutralBand}
+                    onExcludedChange={setExcludedSources}
+                  />
+                )}
+                <EntityBreakdown
+                  results={includedResults}
+                  symbolTable={symbolTable}
+                  onSymbolTableChange={setSymbolTable}
+                  band={neutralBand}
+                />
+                <MarketSignalPanel
+                  results={summaryResults}
+                  instrument={instrument}
+                  instruments={instruments}
+                  onInstrumentChange={(id) => setSettings((prev) => ({ ...prev, instrument: id }))}
+                />
+                <ForexBreakdown results={includedResults} />
+
+                {/* Filters & Sort */}
+                <Card className="p-6 mb-8 shadow-md border-2">
+                  <div className="flex flex-col lg:flex-row gap-6 justify-between items-start lg:items-center">
+                    <div className="flex flex-col sm:flex-row gap-4 flex-1">
+                      <div className="flex items-center gap-2">
+                        <Filter className="w-5 h-5 text-primary" />
+                        <span className="font-semibold">Filter:</span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {SENTIMENT_FILTERS.map((filter) => (
+                          <Button
+                            key={filter}
+                            onClick={() => setFilterBy(filter)}
+                            variant={filterBy === filter ? "default" : "outline"}
+                            size="sm"
+                            className="transition-smooth capitalize"
+                          >
+                            {filter}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row gap-4">
+                      <div className="flex items-center gap-2">
+                        <Crosshair className="w-5 h-5 text-primary" />
+                        <span className="font-semibold">Signal:</span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {SIGNAL_FILTERS.map((filter) => (
+                          <Button
+                            key={filter}
+                            onClick={() => setSignalFilter(filter)}
+                            variant={signalFilter === filter ? "default" : "outline"}
+                            size="sm"
+                            className="transition-smooth capitalize"
+                          >
+                            {filter === "none" ? "No signal" : filter}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
+                      <div className="flex items-center gap-2">
+                        <ArrowUpDown className="w-5 h-5 text-primary" />
+                        <span className="font-semibold">Sort by:</span>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {SORT_OPTIONS.map(({ key, label }) => (
+                          <Button
+                            key={key}
+                            onClick={() => changeSort(key)}
+                            variant={sort.key === key ? "default" : "outline"}
+                            size="sm"
+                            className="transition-smooth"
+                            aria-label={
+                              sort.key === key
+                                ? `${label}, ${sort.direction === "asc" ? "ascending" : "descending"}`
+                                : label
+                            }
+                          >
+                            {label}
+                            {sort.key === key &&
+                              (sort.direction === "asc" ? (
+                                <ArrowUp className="w-4 h-4 ml-1" />
+                              ) : (
+                                <ArrowDown className="w-4 h-4 ml-1" />
+                              ))}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
                   </div>
-                  <div className="flex flex-wrap gap-2">
-                    {(["all", "positive", "negative", "neutral"] as const).map((filter) => (
-                      <Button
-                        key={filter}
-                        onClick={() => setFilterBy(filter)}
-                        variant={filterBy === filter ? "default" : "outline"}
-                        size="sm"
-                        className="transition-smooth capitalize"
-                      >
-                        {filter}
-                      </Button>
-                    ))}
+                  <EventFilterChips results={includedResults} selected={eventFilter} onChange={setEventFilter} />
+                  <div className="mt-6 pt-6 border-t">
+                    <NeutralBandControl
+                      value={neutralBand}
+                      onChange={(band) => setSettings((prev) => ({ ...prev, neutralBand: band }))}
+                    />
                   </div>
+                </Card>
+
+                {/* Results Grid */}
+                <div className="grid gap-6 mb-8">
+                  {sortedStories.map(({ lead: result, members }, idx) => (
+                    <Card
+                      key={idx}
+                      className="p-6 hover:shadow-lg transition-smooth border-l-4 animate-fade-in"
+                      style={{
+                        // @ts-ignore: using CSS var
+                        borderLeftColor: `hsl(var(--${getSentimentColor(result.sentiment)}))`,
+                        animationDelay: `${idx * 0.1}s`,
+                      }}
+                    >
+                      <div className="flex flex-col md:flex-row gap-4 justify-between items-start">
+                        <div className="flex-1">
+                          <div className="flex items-start gap-3 mb-3">
+                            <Badge
+                              className={`mt-1 px-3 py-1 font-bold text-sm bg-${getSentimentColor(
+                                result.sentiment
+                              )} text-${getSentimentColor(result.sentiment)}-foreground`}
+                            >
+                              <span className="flex items-center gap-1">
+                                {getSentimentIcon(result.sentiment)}
+                                {result.sentiment?.toUpperCase()}
+                              </span>
+                            </Badge>
+                            <h3 className="text-lg font-semibold text-foreground flex-1">
+                              {result.headline}
+                            </h3>
+                          </div>
+                          <div className="flex flex-wrap gap-2 mb-3 empty:hidden">
+                            <MarketSignalBadge signal={result.signal} instrumentLabel={instrument.label} />
+                            <ForexBadge signal={result.forex} />
+                            <EventTags events={result.events} />
+                            <EntityChips entities={result.entities} />
+                          </div>
+                          <FactLine facts={result.facts} impact={result.impact} />
+                          <ExplanationPanel result={result} />
+                          <SimilarHeadlines members={members.slice(1)} />
+                          <div className="flex gap-4 text-sm text-muted-foreground">
+                            {result.source && <span>📰 {result.source}</span>}
+                            <span>🧠 {modelLabel(result.model)}</span>
+                            <span>📅 {result.timestamp.toLocaleDateString()}</span>
+                            <span>🕐 {result.timestamp.toLocaleTimeString()}</span>
+                          </div>
+                        </div>
+                      </div>
+                    </Card>
+                  ))}
                 </div>
 
-                <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
-                  <div className="flex items-center gap-2">
-                    <ArrowUpDown className="w-5 h-5 text-primary" />
-                    <span className="font-semibold">Sort by:</span>
-                  </div>
-                  <div className="flex gap-2">
-                    {(["date", "time", "sentiment"] as const).map((sort) => (
-                      <Button
-                        key={sort}
-                        onClick={() => setSortBy(sort)}
-                        variant={sortBy === sort ? "default" : "outline"}
-                        size="sm"
-                        className="transition-smooth capitalize"
-                      >
-                        {sort}
-                      </Button>
-                    ))}
-                  </div>
+                {/* Action Buttons */}
+                <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                  <ExportDialog
+                    results={results}
+                    viewResults={sortedResults}
+                    query={isBatch ? "batch" : submittedQuery}
+                  >
+                    <Button
+                      size="lg"
+                      className="bg-accent hover:bg-accent/90 text-accent-foreground font-bold shadow-md hover:shadow-lg transition-smooth hover:scale-105"
+                    >
+                      <Download className="w-5 h-5 mr-2" />
+                      Export Results
+                    </Button>
+                  </ExportDialog>
+                  {!isBatch && (
+                    <Button
+                      asChild
+                      variant="outline"
+                      size="lg"
+                      className="font-bold border-2 transition-smooth"
+                    >
+                      <Link to={{ pathname: "/report", search: location.search }}>
+                        <Printer className="w-5 h-5 mr-2" />
+                        Printable Report
+                      </Link>
+                    </Button>
+                  )}
+                  <Button
+                    onClick={clearResults}
+                    variant="outline"
+                    size="lg"
+                    className="font-bold border-2 hover:bg-destructive hover:text-destructive-foreground transition-smooth"
+                  >
+                    Clear All Results
+                  </Button>
                 </div>
               </div>
-            </Card>
-
-            {/* Results Grid */}
-            <div className="grid gap-6 mb-8">
-              {sortedResults.map((result, idx) => (
-                <Card
-                  key={idx}
-                  className="p-6 hover:shadow-lg transition-smooth border-l-4 animate-fade-in"
-                  style={{
-                    // @ts-ignore: using CSS var
-                    borderLeftColor: `hsl(var(--${getSentimentColor(result.sentiment)}))`,
-                    animationDelay: `${idx * 0.1}s`,
-                  }}
-                >
-                  <div className="flex flex-col md:flex-row gap-4 justify-between items-start">
-                    <div className="flex-1">
-                      <div className="flex items-start gap-3 mb-3">
-                        <Badge
-                          className={`mt-1 px-3 py-1 font-bold text-sm bg-${getSentimentColor(
-                            result.sentiment
-                          )} text-${getSentimentColor(result.sentiment)}-foreground`}
-                        >
-                          <span className="flex items-center gap-1">
-                            {getSentimentIcon(result.sentiment)}
-                            {result.sentiment?.toUpperCase()}
-                          </span>
-                        </Badge>
-                        <h3 className="text-lg font-semibold text-foreground flex-1">
-                          {result.headline}
-                        </h3>
-                      </div>
-                      {/*<p className="text-muted-foreground mb-3">
-                        {result.explanation}
-                      </p> */}
-                      <div className="flex gap-4 text-sm text-muted-foreground">
-                        <span>📅 {result.timestamp.toLocaleDateString()}</span>
-                        <span>🕐 {result.timestamp.toLocaleTimeString()}</span>
-                      </div>
+            </section>
+          )}
+
+          <WatchlistPanel
+            model={settings.model}
+            band={neutralBand}
+            onOpen={(query) => {
+              setMode("news");
+              setQuery(query);
+              window.scrollTo({ top: 0, behavior: "smooth" });
+            }}
+          />
+
+          {/* About the System */}
+          <section className="py-16 px-4 bg-gradient-to-br from-primary/5 to-accent/5">
+            <div className="container mx-auto max-w-6xl">
+              <div className="text-center mb-12">
+                <h2 className="text-4xl md:text-5xl font-extrabold text-foreground mb-4">
+                  How It Works
+                </h2>
+                <p className="text-xl text-muted-foreground">
+                  Rule-based sentiment analysis for financial news
+                </p>
+              </div>
+
+              {/* Financial Images Showcase */}
+              <div className="grid md:grid-cols-2 gap-6 mb-12">
+                <Card className="p-4 overflow-hidden hover:shadow-lg transition-smooth">
+                  <img
+                    src={forexChart}
+                    alt="Foreign Exchange Trading Dashboard"
+                    className="w-full h-48 object-cover rounded-lg"
+                  />
+                  <p className="text-center mt-3 font-semibold text-foreground">
+                    Forex Market Analysis
+                  </p>
+                </Card>
+                <Card className="p-4 overflow-hidden hover:shadow-lg transition-smooth">
+                  <img
+                    src={financialGraphs}
+                    alt="Financial Data Visualization"
+                    className="w-full h-48 object-cover rounded-lg"
+                  />
+                  <p className="text-center mt-3 font-semibold text-foreground">
+                    Market Statistics
+                  </p>
+                </Card>
+              </div>
+
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 mb-12">
+                {[
+                  {
+                    icon: <Brain className="w-8 h-8" />,
+                    title: "Text Normalization",
+                    description:
+                      "Converts to lowercase and strips punctuation while preserving financial symbols ($, %, Q2, EPS)",
+                  },
+                  {
+                    icon: <CheckCircle2 className="w-8 h-8" />,
+                    title: "Abbreviation Handling",
+                    description:
+                      "Recognizes and processes common financial abbreviations and terminology",
+                  },
+                  {
+                    icon: <Zap className="w-8 h-8" />,
+                    title: "Phrase Pattern Analysis",
+                    description:
+                      "Analyzes sentence structure and phrase patterns for contextual sentiment",
+                  },
+                  {
+                    icon: <TrendingUp className="w-8 h-8" />,
+                    title: "Domain-Specific Lexicon",
+                    description:
+                      "Uses financial market vocabulary for accurate sentiment classification",
+                  },
+                  {
+                    icon: <Search className="w-8 h-8" />,
+                    title: "Rule-Based Engine",
+                    description:
+                      "Applies predefined linguistic rules for consistent sentiment detection",
+                  },
+                  {
+                    icon: <CheckCircle2 className="w-8 h-8" />,
+                    title: "Clear Output",
+                    description:
+                      "Generates simple, actionable sentiment classifications with explanations",
+                  },
+                ].map((feature, idx) => (
+                  <Card
+                    key={idx}
+                    className="p-6 hover:shadow-lg transition-smooth hover:scale-105 border-2 bg-card"
+                  >
+                    <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4 text-primary">
+                      {feature.icon}
                     </div>
+                    <h3 className="text-xl font-bold mb-2 text-foreground">
+                      {feature.title}
+                    </h3>
+                    <p className="text-muted-foreground">{feature.description}</p>
+                  </Card>
+                ))}
+              </div>
+
+              <Card className="p-8 bg-gradient-to-br from-primary/10 to-accent/10 border-2">
+                <div className="text-center">
+                  <h3 className="text-2xl font-bold mb-4 text-foreground">
+                    COMP 415 – Artificial Intelligence
+                  </h3>
+                  <p className="text-lg text-muted-foreground mb-6">
+                    A university project demonstrating rule-based sentiment analysis for financial news
+                    headlines
+                  </p>
+                  <div className="mb-6">
+                    <img
+                      src={stockChart}
+                      alt="Stock Market Analysis"
+                      className="w-full max-w-3xl mx-auto rounded-lg shadow-md h-48 object-cover"
+                    />
                   </div>
-                </Card>
-              ))}
+                  <div className="flex flex-wrap gap-4 justify-center">
+                    <Badge className="px-4 py-2 text-base bg-primary text-primary-foreground">
+                      Natural Language Processing
+                    </Badge>
+                    <Badge className="px-4 py-2 text-base bg-accent text-accent-foreground">
+                      Sentiment Analysis
+                    </Badge>
+                  </div>
+                </div>
+              </Card>
             </div>
+          </section>
+
+          {/* Team Section */}
+          <section className="py-16 px-4">
+            <div className="container mx-auto max-w-6xl">
+              <div className="text-center mb-12">
+                <h2 className="text-4xl md:text-5xl font-extrabold text-foreground mb-4">
+                  Team Members
+                </h2>
+                <p className="text-xl text-muted-foreground">
+                  Built with dedication by our AI research team
+                </p>
+              </div>
 
-            {/* Action Buttons */}
-            <div className="flex flex-col sm:flex-row gap-4 justify-center">
-              <Button
-                onClick={exportResults}
-                size="lg"
-                className="bg-accent hover:bg-accent/90 text-accent-foreground font-bold shadow-md hover:shadow-lg transition-smooth hover:scale-105"
-              >
-                <Download className="w-5 h-5 mr-2" />
-                Export Results (CSV)
-              </Button>
-              <Button
-                onClick={clearResults}
-                variant="outline"
-                size="lg"
-                className="font-bold border-2 hover:bg-destructive hover:text-destructive-foreground transition-smooth"
-              >
-                Clear All Results
-              </Button>
+              <div className="grid md:grid-cols-3 lg:grid-cols-5 gap-6">
+                {[
+                  { name: "Nahid Lalá Daúde", role: "Project Leader & Backend dev" },
+                  { name: "Allan Cassamo Momade", role: "Frontend Developer" },
+                  { name: "Oluwatobi Stephan Olabode", role: "Data Analyst" },
+                  { name: "Bezawit Yyehuala Desta", role: "System Tester" },
+                  { name: "Kuyeri Chakupadedza Kuyeri", role: "System Designer" },
+                ].map((member, idx) => (
+                  <Card
+                    key={idx}
+                    className="p-8 text-center hover:shadow-lg transition-smooth hover:scale-105 border-2"
+                  >
+                    <div className="w-24 h-24 rounded-full bg-gradient-to-br from-primary to-accent mx-auto mb-4 flex items-center justify-center text-3xl font-bold text-white">
+                      {member.name.charAt(0)}
+                    </div>
+                    <h3 className="text-xl font-bold mb-2 text-foreground">
+                      {member.name}
+                    </h3>
+                    <p className="text-muted-foreground">{member.role}</p>
+                  </Card>
+                ))}
+              </div>
             </div>
-          </div>
-        </section>
-      )}
-
-      {/* About the System */}
-      <section className="py-16 px-4 bg-gradient-to-br from-primary/5 to-accent/5">
-        <div className="container mx-auto max-w-6xl">
-          <div className="text-center mb-12">
-            <h2 className="text-4xl md:text-5xl font-extrabold text-foreground mb-4">
-              How It Works
-            </h2>
-            <p className="text-xl text-muted-foreground">
-              Rule-based sentiment analysis for financial news
-            </p>
-          </div>
-
-          {/* Financial Images Showcase */}
-          <div className="grid md:grid-cols-2 gap-6 mb-12">
-            <Card className="p-4 overflow-hidden hover:shadow-lg transition-smooth">
-              <img
-                src={forexChart}
-                alt="Foreign Exchange Trading Dashboard"
-                className="w-full h-48 object-cover rounded-lg"
-              />
-              <p className="text-center mt-3 font-semibold text-foreground">
-                Forex Market Analysis
-              </p>
-            </Card>
-            <Card className="p-4 overflow-hidden hover:shadow-lg transition-smooth">
-              <img
-                src={financialGraphs}
-                alt="Financial Data Visualization"
-                className="w-full h-48 object-cover rounded-lg"
-              />
-              <p className="text-center mt-3 font-semibold text-foreground">
-                Market Statistics
+          </section>
+
+          {/* Footer */}
+          <footer className="bg-primary text-primary-foreground py-8 px-4">
+            <div className="container mx-auto max-w-6xl text-center">
+              <p className="text-lg font-semibold mb-2">
+                Financial News Sentiment Analyzer
               </p>
-            </Card>
-          </div>
-
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 mb-12">
-            {[
-              {
-                icon: <Brain className="w-8 h-8" />,
-                title: "Text Normalization",
-                description:
-                  "Converts to lowercase and strips punctuation while preserving financial symbols ($, %, Q2, EPS)",
-              },
-              {
-                icon: <CheckCircle2 className="w-8 h-8" />,
-                title: "Abbreviation Handling",
-                description:
-                  "Recognizes and processes common financial abbreviations and terminology",
-              },
-              {
-                icon: <Zap className="w-8 h-8" />,
-                title: "Phrase Pattern Analysis",
-                description:
-                  "Analyzes sentence structure and phrase patterns for contextual sentiment",
-              },
-              {
-                icon: <TrendingUp className="w-8 h-8" />,
-                title: "Domain-Specific Lexicon",
-                description:
-                  "Uses financial market vocabulary for accurate sentiment classification",
-              },
-              {
-                icon: <Search className="w-8 h-8" />,
-                title: "Rule-Based Engine",
-                description:
-                  "Applies predefined linguistic rules for consistent sentiment detection",
-              },
-              {
-                icon: <CheckCircle2 className="w-8 h-8" />,
-                title: "Clear Output",
-                description:
-                  "Generates simple, actionable sentiment classifications with explanations",
-              },
-            ].map((feature, idx) => (
-              <Card
-                key={idx}
-                className="p-6 hover:shadow-lg transition-smooth hover:scale-105 border-2 bg-card"
-              >
-                <div className="w-16 h-16 rounded-2xl bg-primary/10 flex items-center justify-center mb-4 text-primary">
-                  {feature.icon}
-                </div>
-                <h3 className="text-xl font-bold mb-2 text-foreground">
-                  {feature.title}
-                </h3>
-                <p className="text-muted-foreground">{feature.description}</p>
-              </Card>
-            ))}
-          </div>
-
-          <Card className="p-8 bg-gradient-to-br from-primary/10 to-accent/10 border-2">
-            <div className="text-center">
-              <h3 className="text-2xl font-bold mb-4 text-foreground">
-                COMP 415 – Artificial Intelligence
-              </h3>
-              <p className="text-lg text-muted-foreground mb-6">
-                A university project demonstrating rule-based sentiment analysis for financial news
-                headlines
+              <p className="text-primary-foreground/80">
+                © 2025 University AI Project • COMP 415 Artificial Intelligence
               </p>
-              <div className="mb-6">
-                <img
-                  src={stockChart}
-                  alt="Stock Market Analysis"
-                  className="w-full max-w-3xl mx-auto rounded-lg shadow-md h-48 object-cover"
-                />
-              </div>
-              <div className="flex flex-wrap gap-4 justify-center">
-                <Badge className="px-4 py-2 text-base bg-primary text-primary-foreground">
-                  Natural Language Processing
-                </Badge>
-                <Badge className="px-4 py-2 text-base bg-accent text-accent-foreground">
-                  Sentiment Analysis
-                </Badge>
-              </div>
             </div>
-          </Card>
-        </div>
-      </section>
-
-      {/* Team Section */}
-      <section className="py-16 px-4">
-        <div className="container mx-auto max-w-6xl">
-          <div className="text-center mb-12">
-            <h2 className="text-4xl md:text-5xl font-extrabold text-foreground mb-4">
-              Team Members
-            </h2>
-            <p className="text-xl text-muted-foreground">
-              Built with dedication by our AI research team
-            </p>
-          </div>
-
-          <div className="grid md:grid-cols-3 lg:grid-cols-5 gap-6">
-            {[
-              { name: "Nahid Lalá Daúde", role: "Project Leader & Backend dev" },
-              { name: "Allan Cassamo Momade", role: "Frontend Developer" },
-              { name: "Oluwatobi Stephan Olabode", role: "Data Analyst" },
-              { name: "Bezawit Yyehuala Desta", role: "System Tester" },
-              { name: "Kuyeri Chakupadedza Kuyeri", role: "System Designer" },
-            ].map((member, idx) => (
-              <Card
-                key={idx}
-                className="p-8 text-center hover:shadow-lg transition-smooth hover:scale-105 border-2"
-              >
-                <div className="w-24 h-24 rounded-full bg-gradient-to-br from-primary to-accent mx-auto mb-4 flex items-center justify-center text-3xl font-bold text-white">
-                  {member.name.charAt(0)}
-                </div>
-                <h3 className="text-xl font-bold mb-2 text-foreground">
-                  {member.name}
-                </h3>
-                <p className="text-muted-foreground">{member.role}</p>
-              </Card>
-            ))}
-          </div>
-        </div>
-      </section>
-
-      {/* Footer */}
-      <footer className="bg-primary text-primary-foreground py-8 px-4">
-        <div className="container mx-auto max-w-6xl text-center">
-          <p className="text-lg font-semibold mb-2">
-            Financial News Sentiment Analyzer
-          </p>
-          <p className="text-primary-foreground/80">
-            © 2025 University AI Project • COMP 415 Artificial Intelligence
-          </p>
+          </footer>
         </div>
-      </footer>
-    </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
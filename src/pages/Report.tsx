@@ -0,0 +1,204 @@
+import { useMemo } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { ArrowLeft, Printer } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { SummaryPanel } from "@/components/SummaryPanel";
+import { SentimentTimeline } from "@/components/SentimentTimeline";
+import { useNewsAnalysis } from "@/hooks/use-analysis";
+import { useAnalysisParams } from "@/hooks/use-analysis-params";
+import { useHistoryRun } from "@/hooks/use-history";
+import { useSettings } from "@/hooks/use-settings";
+import { useSymbolTable } from "@/hooks/use-symbol-table";
+import { DEFAULT_LIMIT, DEFAULT_MODEL, describeApiError } from "@/lib/api";
+import { reclassifyResults, toAnalysisResults, type AnalysisResult } from "@/lib/analysis";
+import { clusterResults, storyRepresentatives } from "@/lib/clustering";
+import { annotateEntities } from "@/lib/entities";
+import { annotateEvents, eventLabel } from "@/lib/events";
+import { filterByEvents, filterBySentiment, filterBySignal } from "@/lib/filters";
+import { annotateSignals, resolveInstrument } from "@/lib/market-signal";
+import { modelLabel } from "@/lib/models";
+import { sortResults } from "@/lib/sort";
+import { filterBySource } from "@/lib/sources";
+import { averagePolarity, summarizeResults } from "@/lib/stats";
+import { ROLLING_WINDOW } from "@/lib/timeline";
+
+const TOP_COUNT = 5;
+
+const formatPolarity = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(3)}`;
+
+const HeadlineList = ({ title, results }: { title: string; results: AnalysisResult[] }) => (
+  <div className="break-inside-avoid">
+    <h2 className="text-xl font-bold mb-3">{title}</h2>
+    {results.length === 0 ? (
+      <p className="text-sm text-muted-foreground">None in this result set.</p>
+    ) : (
+      <ol className="space-y-2 text-sm list-decimal pl-5">
+        {results.map((r, idx) => (
+          <li key={idx}>
+            <span className="font-medium">{r.headline}</span>
+            <span className="block text-xs text-muted-foreground">
+              {formatPolarity(r.polarity)} · {r.source && `${r.source} · `}
+              {r.timestamp.toLocaleDateString()}
+              {r.link && <span className="hidden print:inline"> · {r.link}</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
+/**
+ * Print-optimized snapshot of the current analysis. Reads the same `q`/`run`
+ * params as the analyzer, so it renders from the query cache or the local
+ * history without another backend round trip in the common case.
+ */
+const Report = () => {
+  const { query, runId, filter, signalFilter, eventFilter, excludedSources, countStoriesOnce } =
+    useAnalysisParams();
+  const location = useLocation();
+  const [{ neutralBand, model, instrument: instrumentId }] = useSettings();
+  const [symbolTable] = useSymbolTable();
+  const analysis = useNewsAnalysis(runId ? "" : query, DEFAULT_LIMIT, model);
+  const savedRun = useHistoryRun(runId);
+
+  const response = runId ? savedRun.data?.response : analysis.data;
+  const fetchedAt = runId ? savedRun.data?.createdAt : analysis.dataUpdatedAt;
+  const isOffline = Boolean(runId ? savedRun.data?.offline : analysis.data?.offline);
+  const scoredBy = response?.model ?? DEFAULT_MODEL;
+  // Imported files whose rows do not name one model.
+  const importedScoring =
+    scoredBy === "mixed" ? "several models" : scoredBy === "unknown" ? "an unrecorded model" : null;
+
+  const instrument = useMemo(() => resolveInstrument(instrumentId, symbolTable), [instrumentId, symbolTable]);
+  const results = useMemo(() => {
+    if (!response) return [];
+    const all = reclassifyResults(toAnalysisResults(response, new Date(fetchedAt)), neutralBand);
+    // Signals only matter when the report is filtered by one.
+    const annotated =
+      signalFilter === "all"
+        ? all
+        : annotateSignals(annotateEntities(all, symbolTable, neutralBand), instrument, neutralBand);
+    const filtered = filterBySource(
+      filterByEvents(
+        filterBySignal(filterBySentiment(annotateEvents(annotated), filter), signalFilter),
+        eventFilter
+      ),
+      excludedSources
+    );
+    // Match the analyzer's "count each story once" so the report covers what was on screen.
+    return countStoriesOnce ? storyRepresentatives(clusterResults(filtered), neutralBand) : filtered;
+  }, [
+    response,
+    fetchedAt,
+    filter,
+    signalFilter,
+    eventFilter,
+    excludedSources,
+    countStoriesOnce,
+    neutralBand,
+    symbolTable,
+    instrument,
+  ]);
+  const summary = summarizeResults(results);
+  const topPositive = sortResults(results, { key: "polarity", direction: "desc" })
+    .filter((r) => r.sentiment === "positive")
+    .slice(0, TOP_COUNT);
+  const topNegative = sortResults(results, { key: "polarity", direction: "asc" })
+    .filter((r) => r.sentiment === "negative")
+    .slice(0, TOP_COUNT);
+
+  const isLoading = analysis.isLoading || savedRun.isLoading;
+  const errorMsg = analysis.isError ? describeApiError(analysis.error) : null;
+  const title = savedRun.data?.name ?? query;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="mx-auto w-[180mm] max-w-full px-4 py-8 print:p-0">
+        <div className="flex justify-between items-center mb-8 print:hidden">
+          <Link
+            to={{ pathname: "/", search: location.search }}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to analyzer
+          </Link>
+          <Button onClick={() => window.print()} disabled={results.length === 0}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print / Save as PDF
+          </Button>
+        </div>
+
+        <header className="border-b-2 border-primary pb-4 mb-6">
+          <p className="text-sm font-semibold uppercase tracking-wide text-primary">Sentiment Report</p>
+          <h1 className="text-3xl font-extrabold">{title || "No query selected"}</h1>
+          {fetchedAt ? (
+            <p className="text-sm text-muted-foreground">
+              Data from {new Date(fetchedAt).toLocaleString()} · {results.length} {countStoriesOnce ? "stories" : "headlines"} · average
+              polarity {formatPolarity(averagePolarity(results))}
+              {filter !== "all" && ` · ${filter} only`}
+              {signalFilter !== "all" &&
+                ` · ${signalFilter === "none" ? "no" : signalFilter} signal for ${instrument.label}`}
+              {eventFilter.length > 0 && ` · ${eventFilter.map(eventLabel).join(", ")}`}
+              {excludedSources.length > 0 && ` · excluding ${excludedSources.join(", ")}`}
+              {countStoriesOnce && " · each story counted once"}
+            </p>
+          ) : null}
+        </header>
+
+        {isLoading && <p className="text-muted-foreground">Loading results…</p>}
+        {errorMsg && <p className="text-red-500">{errorMsg}</p>}
+        {!isLoading && !errorMsg && results.length === 0 && (
+          <p className="text-muted-foreground">
+            There are no results to report. Run an analysis first, then open the report from the
+            results section.
+          </p>
+        )}
+
+        {results.length > 0 && (
+          <>
+            <div className="break-inside-avoid">
+              <SummaryPanel summary={summary} results={results} band={neutralBand} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-6 mb-8">
+              <HeadlineList title="Most positive" results={topPositive} />
+              <HeadlineList title="Most negative" results={topNegative} />
+            </div>
+
+            <div className="break-before-page break-inside-avoid">
+              <SentimentTimeline results={results} />
+            </div>
+
+            <footer className="break-inside-avoid border-t pt-4 text-xs text-muted-foreground space-y-2">
+              <h2 className="text-sm font-bold text-foreground">Methodology</h2>
+              <p>
+                Headlines were{" "}
+                {isOffline
+                  ? "scored in the browser by the rule-based engine"
+                  : importedScoring
+                    ? `imported from a file, scored with ${importedScoring}`
+                    : scoredBy === "rules"
+                    ? "fetched from Google News and scored in the browser by the rule-based engine"
+                    : `fetched from Google News and scored with ${modelLabel(scoredBy)}`}
+                .
+                Each headline receives a compound polarity between −1 and +1; scores above{" "}
+                {neutralBand.upper.toFixed(2)} are positive, below {neutralBand.lower.toFixed(2)}{" "}
+                negative, and anything in between neutral. Word-level attributions come from a financial lexicon with negation,
+                intensifier and contrast rules.
+              </p>
+              <p>
+                The timeline line is a rolling average over the last {ROLLING_WINDOW} time buckets.
+                Results reflect headline wording only, not article bodies, and are not investment advice.
+              </p>
+              <p>Generated {new Date().toLocaleString()}.</p>
+            </footer>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Report;